@@ -0,0 +1,113 @@
+import { readFile } from "fs/promises";
+
+import { createJsonFileWriter } from "./state";
+import { normalizeSlug } from "./utils";
+
+/** Stable provider ID -> former slugs and hosts (e.g. before a rebrand or a .de -> .com move). */
+export type ProviderAliasTable = Record<string, string[]>;
+
+export type ProviderIdentity = {
+  providerId: string;
+  canonicalOrigin: string;
+};
+
+export const PROVIDER_ALIASES_PATH = "seeds/provider-aliases.json";
+
+/**
+ * Reduces a URL, a host or a slug to the slug form used as lookup key. Slugs never
+ * contain dots, so anything with a dot is treated as a host.
+ */
+export const toAliasKey = (value: string): string => {
+  const trimmed = value.trim().toLowerCase();
+  try {
+    if (trimmed.includes("://")) {
+      return normalizeSlug(trimmed);
+    }
+    if (trimmed.includes(".")) {
+      return normalizeSlug(`https://${trimmed}`);
+    }
+  } catch {
+    return trimmed;
+  }
+  return trimmed;
+};
+
+const loadAliasTable = async (filePath: string): Promise<ProviderAliasTable> => {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf8")) as ProviderAliasTable;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const createProviderAliasStore = async (
+  filePath: string,
+  options: { readOnly: boolean },
+) => {
+  const table = await loadAliasTable(filePath);
+  const writer = createJsonFileWriter(filePath);
+  // register() is synchronous; a failed write surfaces from flush() at the end of the run.
+  let writeError: unknown;
+  const idByKey = new Map<string, string>();
+
+  const index = (providerId: string, alias: string) => {
+    const key = toAliasKey(alias);
+    if (!idByKey.has(key)) {
+      idByKey.set(key, providerId);
+    }
+  };
+
+  for (const [providerId, aliases] of Object.entries(table)) {
+    index(providerId, providerId);
+    for (const alias of Array.isArray(aliases) ? aliases : []) {
+      index(providerId, alias);
+    }
+  }
+
+  const lookup = (value: string): string | undefined => idByKey.get(toAliasKey(value));
+
+  const resolve = (value: string): string => lookup(value) ?? toAliasKey(value);
+
+  const register = (providerId: string, alias: string) => {
+    const key = toAliasKey(alias);
+    if (key === providerId || idByKey.has(key)) {
+      return;
+    }
+    table[providerId] = [...(table[providerId] ?? []), alias];
+    index(providerId, providerId);
+    index(providerId, alias);
+    if (!options.readOnly) {
+      const sorted = Object.fromEntries(
+        Object.entries(table).sort(([a], [b]) => a.localeCompare(b)),
+      );
+      writer.write(sorted).catch((error: unknown) => {
+        writeError ??= error;
+      });
+    }
+  };
+
+  /**
+   * Picks the stable ID for a crawled seed: a known seed keeps its ID, a seed that
+   * redirects to a known host joins that provider, and otherwise the seed slug becomes
+   * the ID. Both the seed and the final host are recorded as aliases of the result.
+   */
+  const identify = (seedUrl: string, canonicalOrigin: string): ProviderIdentity => {
+    const canonicalHost = new URL(canonicalOrigin).host;
+    const providerId = lookup(seedUrl) ?? lookup(canonicalHost) ?? toAliasKey(seedUrl);
+    register(providerId, new URL(seedUrl).host);
+    register(providerId, canonicalHost);
+    return { providerId, canonicalOrigin };
+  };
+
+  const flush = async () => {
+    await writer.flush().catch(() => undefined);
+    if (writeError) {
+      throw writeError;
+    }
+  };
+
+  return { resolve, identify, flush };
+};
+
+export type ProviderAliasStore = Awaited<ReturnType<typeof createProviderAliasStore>>;
@@ -0,0 +1,186 @@
+import { Logger, normalizeSlug } from "./utils";
+
+export type BsiProviderRow = {
+  name: string;
+  website?: string;
+  contact?: string;
+};
+
+export type ImportedSeed = {
+  url: string;
+  slug: string;
+  row: BsiProviderRow;
+};
+
+export type SeedDiff = {
+  added: string[];
+  removed: string[];
+};
+
+// Links to the BSI itself (source PDF, selection criteria) are not providers.
+const IGNORED_HOSTS = ["bsi.bund.de"];
+const FREEMAIL_DOMAINS = ["gmail.com", "gmx.de", "gmx.net", "web.de", "outlook.com", "t-online.de"];
+const KNOWN_TLDS = [
+  "de",
+  "com",
+  "net",
+  "org",
+  "eu",
+  "io",
+  "ch",
+  "at",
+  "nl",
+  "fr",
+  "uk",
+  "co",
+  "ms",
+  "group",
+  "security",
+  "cloud",
+  "tech",
+  "info",
+  "biz",
+];
+const LABEL_PATTERN = /^(?:tel(?:efon)?|phone|fax|e-?mail|web(?:seite|site)?|internet|homepage|kontakt|contact)\s*:?\s*/i;
+// Not followed by "@" or ".", so addresses like kontakt@firma.de are not taken for headers.
+const HEADER_PATTERN =
+  /^(?:seite|page|stand|liste|bundesamt|qualifizierte|apt-response|name|firma|unternehmen|dienstleister|kontakt|webseite|website|anschrift|adresse)\b(?![@.])/i;
+// Street suffixes also match inside compound names ("Musterstraße 12", "Am Lindenweg 3").
+const ADDRESS_PATTERN = /\b\d{4,5}\s+\p{L}|(?:stra(?:ss|ß)e|str\.|weg|platz|allee|ring|gasse)\s*\d/iu;
+const PHONE_PATTERN = /(?:\+|\b0)\d[\d\s/().-]{6,}\d/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+
+const trimToken = (token: string): string => token.replace(/^[(<]+|[.,;:)>]+$/g, "");
+
+const isWebsiteToken = (token: string): boolean => {
+  if (token.includes("@")) {
+    return false;
+  }
+  if (/^(?:https?:\/\/|www\.)/i.test(token)) {
+    return true;
+  }
+  const match = token.match(/^((?:[a-z0-9-]+\.)+([a-z]{2,}))(?:\/\S*)?$/i);
+  return Boolean(match && KNOWN_TLDS.includes(match[2].toLowerCase()));
+};
+
+/**
+ * Groups the PDF text into provider rows. A row starts with the company name and
+ * ends once its website has been seen; contact details may appear before or after
+ * the website, addresses and table headers are ignored.
+ */
+export const parseBsiProviderList = (text: string): BsiProviderRow[] => {
+  const rows: BsiProviderRow[] = [];
+  let current: { nameParts: string[]; website?: string; contact?: string } = { nameParts: [] };
+
+  const flush = () => {
+    if (current.nameParts.length > 0 || current.website) {
+      rows.push({
+        name: current.nameParts.join(" "),
+        website: current.website,
+        contact: current.contact,
+      });
+    }
+    current = { nameParts: [] };
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(LABEL_PATTERN, "").trim();
+    if (!line || HEADER_PATTERN.test(line)) {
+      continue;
+    }
+
+    const tokens = line.split(/\s+/).map(trimToken);
+    const website = tokens.find(isWebsiteToken);
+    const email = line.match(EMAIL_PATTERN)?.[0];
+    const phone = line.match(PHONE_PATTERN)?.[0];
+
+    if (!website && !email && !phone) {
+      if (ADDRESS_PATTERN.test(line)) {
+        continue;
+      }
+      if (current.website) {
+        flush();
+      }
+      current.nameParts.push(line);
+      continue;
+    }
+
+    if (!current.contact && (email || phone)) {
+      current.contact = email ?? phone?.trim();
+    }
+    if (website && !current.website) {
+      current.website = website;
+    }
+  }
+  flush();
+
+  return rows;
+};
+
+const resolveSeedUrl = (row: BsiProviderRow): string | null => {
+  const candidate = (() => {
+    if (row.website) {
+      return /^https?:\/\//i.test(row.website) ? row.website : `https://${row.website}`;
+    }
+    const domain = row.contact?.match(EMAIL_PATTERN)?.[0].split("@")[1]?.toLowerCase();
+    return domain && !FREEMAIL_DOMAINS.includes(domain) ? `https://${domain}` : null;
+  })();
+  if (!candidate) {
+    return null;
+  }
+  try {
+    const url = new URL(candidate);
+    url.hash = "";
+    if (IGNORED_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+      return null;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+export const resolveSeeds = (rows: BsiProviderRow[], logger: Logger = console): ImportedSeed[] => {
+  const seeds: ImportedSeed[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const url = resolveSeedUrl(row);
+    if (!url) {
+      logger.warn(`Skipping "${row.name || row.website}": no usable website.`);
+      continue;
+    }
+    const slug = normalizeSlug(url);
+    if (seen.has(slug)) {
+      continue;
+    }
+    seen.add(slug);
+    seeds.push({ url, slug, row });
+  }
+  return seeds;
+};
+
+const toSlugSet = (urls: string[]): Set<string> =>
+  new Set(
+    urls.flatMap((url) => {
+      try {
+        return [normalizeSlug(url)];
+      } catch {
+        return [];
+      }
+    }),
+  );
+
+export const diffSeeds = (existing: string[], next: string[]): SeedDiff => {
+  const existingSlugs = toSlugSet(existing);
+  const nextSlugs = toSlugSet(next);
+  return {
+    added: next.filter((url) => !existingSlugs.has(normalizeSlug(url))),
+    removed: existing.filter((url) => {
+      try {
+        return !nextSlugs.has(normalizeSlug(url));
+      } catch {
+        return true;
+      }
+    }),
+  };
+};
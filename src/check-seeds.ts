@@ -0,0 +1,137 @@
+import { mkdir, readdir, writeFile } from "fs/promises";
+import path from "path";
+
+import {
+  loadSeedCheckReport,
+  probeSeed,
+  SEED_CHECK_REPORT_PATH,
+  SeedCheckReport,
+  SeedCheckResult,
+} from "./liveness";
+import { createSequencer, runWithConcurrency } from "./queue";
+import { ALIVE_SEED_LISTS, loadSeeds, writeSeedFile } from "./seeds";
+
+type CliOptions = {
+  concurrency: number;
+  fromReport: boolean;
+};
+
+const SEEDS_DIR = "seeds";
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { concurrency: 4, fromReport: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--from-report") {
+      options.fromReport = true;
+    }
+    if (arg === "--concurrency") {
+      const value = Number.parseInt(argv[i + 1] ?? "", 10);
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error("--concurrency expects a positive integer.");
+      }
+      options.concurrency = value;
+      i += 1;
+    }
+  }
+  return options;
+};
+
+const isAliveList = (filePath: string): boolean => Object.values(ALIVE_SEED_LISTS).includes(filePath);
+
+// Every seed file except the generated alive lists, keyed by seed URL.
+const collectSeedSources = async (): Promise<Map<string, string[]>> => {
+  const files = (await readdir(path.join(process.cwd(), SEEDS_DIR)))
+    .filter((name) => name.endsWith(".txt"))
+    .map((name) => `${SEEDS_DIR}/${name}`)
+    .filter((filePath) => !isAliveList(filePath))
+    .sort();
+  const sources = new Map<string, string[]>();
+  for (const filePath of files) {
+    for (const seedUrl of await loadSeeds(path.join(process.cwd(), filePath))) {
+      sources.set(seedUrl, [...(sources.get(seedUrl) ?? []), filePath]);
+    }
+  }
+  return sources;
+};
+
+const formatResult = (result: SeedCheckResult): string => {
+  const target = result.hostChanged && result.finalUrl ? ` -> ${result.finalUrl}` : "";
+  const detail = result.status === "alive" ? `HTTP ${result.httpStatus}` : result.reason;
+  return `${result.status === "alive" ? "ok     " : result.status.padEnd(7)} ${result.seedUrl}${target} (${detail})`;
+};
+
+const probeSeeds = async (
+  sources: Map<string, string[]>,
+  concurrency: number,
+): Promise<SeedCheckReport> => {
+  const entries = Array.from(sources.entries());
+  const results: SeedCheckResult[] = new Array(entries.length);
+  const sequencer = createSequencer(entries.length);
+  await runWithConcurrency(entries, concurrency, async ([seedUrl, sourceFiles], index) => {
+    try {
+      results[index] = await probeSeed(seedUrl, sourceFiles);
+      sequencer.loggerFor(index).log(formatResult(results[index]));
+    } finally {
+      sequencer.complete(index);
+    }
+  });
+  return { checkedAt: new Date().toISOString(), results };
+};
+
+const writeAliveLists = async (report: SeedCheckReport) => {
+  const statusBySeed = new Map(report.results.map((result) => [result.seedUrl, result.status]));
+  for (const [sourcePath, alivePath] of Object.entries(ALIVE_SEED_LISTS)) {
+    const seeds = await loadSeeds(path.join(process.cwd(), sourcePath));
+    const unchecked = seeds.filter((seedUrl) => !statusBySeed.has(seedUrl));
+    if (unchecked.length > 0) {
+      console.warn(
+        `${unchecked.length} seed(s) in ${sourcePath} are missing from the report; rerun without --from-report.`,
+      );
+    }
+    const alive = seeds.filter((seedUrl) => statusBySeed.get(seedUrl) === "alive");
+    await writeSeedFile(
+      path.join(process.cwd(), alivePath),
+      [
+        `Generated by yarn check-seeds from ${sourcePath} on ${report.checkedAt.slice(0, 10)}; do not edit by hand.`,
+        `Seeds that were unreachable, parked, failed TLS or are blocked by robots.txt are listed in ${SEED_CHECK_REPORT_PATH}.`,
+      ],
+      alive,
+    );
+    console.log(`Wrote ${alivePath}: ${alive.length} of ${seeds.length} seed(s) alive.`);
+  }
+};
+
+const run = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const reportFile = path.join(process.cwd(), SEED_CHECK_REPORT_PATH);
+
+  const report = options.fromReport
+    ? await loadSeedCheckReport(reportFile)
+    : await probeSeeds(await collectSeedSources(), options.concurrency);
+  if (!report) {
+    throw new Error(`No seed check report found at ${SEED_CHECK_REPORT_PATH}.`);
+  }
+
+  if (!report.results.some((result) => result.status === "alive")) {
+    // Usually a local network problem; keep the previous report and alive lists intact.
+    throw new Error("No seed answered; leaving the report and alive lists unchanged.");
+  }
+
+  if (!options.fromReport) {
+    await mkdir(path.dirname(reportFile), { recursive: true });
+    await writeFile(reportFile, JSON.stringify(report, null, 2), "utf8");
+    const count = (status: SeedCheckResult["status"]) =>
+      report.results.filter((result) => result.status === status).length;
+    console.log(
+      `Checked ${report.results.length} seed(s): ${count("alive")} alive, ${count("dead")} dead, ${count("blocked")} blocked by robots.txt. Report: ${SEED_CHECK_REPORT_PATH}`,
+    );
+  }
+
+  await writeAliveLists(report);
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,219 @@
+import type { CrawledPage } from "./crawl";
+import { dedupe } from "./utils";
+
+export type ExtractionChunk = {
+  pageKeys: string[];
+  officialSections: string[];
+  externalSections: string[];
+  tokens: number;
+};
+
+export type ExtractionPlan = {
+  chunks: ExtractionChunk[];
+  trimmedPages: string[];
+  droppedPages: string[];
+};
+
+export type CandidateRecord = Record<string, unknown> & {
+  notes?: string;
+  provenance?: Record<string, unknown>;
+};
+
+export const DEFAULT_EXTRACTION_TOKEN_BUDGET = 24000;
+
+// No tokenizer ships with the OpenAI SDK; four characters per token is close for
+// English and slightly generous for German, which only makes chunks smaller.
+const CHARS_PER_TOKEN = 4;
+const PAGE_MAX_TOKENS = 6000;
+const MAX_CHUNKS = 6;
+
+// Lower rank = sent first. Chunks are filled in this order, so the first chunk
+// always holds the homepage and the legal pages.
+const KEY_RANKS: Array<{ prefix: string; rank: number }> = [
+  { prefix: "home", rank: 0 },
+  { prefix: "impressum", rank: 1 },
+  { prefix: "contact", rank: 2 },
+  { prefix: "fallback", rank: 4 },
+  { prefix: "pdf", rank: 7 },
+];
+
+const REASON_RANKS: Array<{ reasons: string[]; rank: number }> = [
+  { reasons: ["services", "service", "leistungen", "angebot"], rank: 3 },
+  {
+    reasons: ["about", "ueber-uns", "about-us", "unternehmen", "company", "profile", "history", "who-we-are", "team"],
+    rank: 4,
+  },
+  { reasons: ["certification", "certifications", "zertifizierung", "iso", "27001"], rank: 5 },
+  {
+    reasons: ["case-study", "case-studies", "success", "stories", "references", "referenzen", "kunden", "clients"],
+    rank: 6,
+  },
+  { reasons: ["privacy", "datenschutz", "legal"], rank: 9 },
+];
+
+const EXTERNAL_RANK = 10;
+const DEFAULT_RANK = 8;
+
+// Fields collected from every chunk; a provider's services may be spread over several pages.
+const UNION_FIELDS = [
+  "regions",
+  "services",
+  "languages",
+  "delivery_modes",
+  "industries",
+  "certifications",
+  "qualifications",
+  "notable_references",
+  "proof_source_urls",
+  "case_studies",
+  "engagement_models",
+];
+
+// Scalars where a disagreement between chunks is worth a note.
+const CONFLICT_FIELDS = [
+  "name",
+  "legal_name",
+  "founded_year",
+  "company_size_band",
+  "response_time_band",
+  "minimum_project_size_band",
+  "availability",
+];
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const getExtractionTokenBudget = (): number => {
+  const configured = process.env.EXTRACTION_TOKEN_BUDGET?.trim();
+  if (!configured) {
+    return DEFAULT_EXTRACTION_TOKEN_BUDGET;
+  }
+  const value = Number.parseInt(configured, 10);
+  if (!Number.isInteger(value) || value < 1000) {
+    throw new Error("EXTRACTION_TOKEN_BUDGET must be an integer of at least 1000.");
+  }
+  return value;
+};
+
+export const rankPage = (page: CrawledPage): number => {
+  if (page.discoveryReason === "external-proof") {
+    return EXTERNAL_RANK;
+  }
+  const byKey = KEY_RANKS.find(({ prefix }) => page.key === prefix || page.key.startsWith(`${prefix}-`));
+  if (byKey) {
+    return byKey.rank;
+  }
+  const byReason = REASON_RANKS.find(({ reasons }) => reasons.includes(page.discoveryReason ?? ""));
+  return byReason?.rank ?? DEFAULT_RANK;
+};
+
+const trimToTokens = (text: string, maxTokens: number): string => {
+  if (text.length <= maxTokens * CHARS_PER_TOKEN) {
+    return text;
+  }
+  const maxChars = maxTokens * CHARS_PER_TOKEN - " [...]".length;
+  const cut = text.lastIndexOf(" ", maxChars);
+  return `${text.slice(0, cut > maxChars / 2 ? cut : maxChars)} [...]`;
+};
+
+/**
+ * Orders pages by usefulness, trims oversized pages and packs them into chunks that
+ * each fit the token budget. Pages that do not fit into the last allowed chunk are
+ * dropped, lowest rank first.
+ */
+export const planExtractionChunks = (
+  pages: CrawledPage[],
+  formatPage: (page: CrawledPage) => string,
+  budget: number,
+): ExtractionPlan => {
+  const pageLimit = Math.min(PAGE_MAX_TOKENS, budget);
+  const ranked = pages
+    .map((page, index) => ({ page, index }))
+    .sort((a, b) => rankPage(a.page) - rankPage(b.page) || a.index - b.index)
+    .map(({ page }) => page);
+
+  const plan: ExtractionPlan = { chunks: [], trimmedPages: [], droppedPages: [] };
+  let current: ExtractionChunk | null = null;
+  for (const page of ranked) {
+    const formatted = formatPage(page);
+    const section = trimToTokens(formatted, pageLimit);
+    if (section !== formatted) {
+      plan.trimmedPages.push(page.key);
+    }
+    const tokens = estimateTokens(section);
+    if (!current || current.tokens + tokens > budget) {
+      if (plan.chunks.length >= MAX_CHUNKS) {
+        plan.droppedPages.push(page.key);
+        continue;
+      }
+      current = { pageKeys: [], officialSections: [], externalSections: [], tokens: 0 };
+      plan.chunks.push(current);
+    }
+    current.pageKeys.push(page.key);
+    current.tokens += tokens;
+    if (page.discoveryReason === "external-proof") {
+      current.externalSections.push(section);
+    } else {
+      current.officialSections.push(section);
+    }
+  }
+  return plan;
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim().length === 0) ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Merges per-chunk candidates. Chunks arrive in page rank order, so for single
+ * values the first chunk that states one wins; list fields are unioned and
+ * emergency_24_7 holds if any chunk saw it. Each field keeps the citation of the
+ * chunk its value came from, and scalar disagreements are added to notes.
+ */
+export const mergeCandidates = <T extends CandidateRecord>(candidates: T[]): T => {
+  const merged: CandidateRecord = {};
+  const provenance: Record<string, unknown> = {};
+  const notes: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const candidate of candidates) {
+    for (const [field, value] of Object.entries(candidate)) {
+      if (field === "provenance" || field === "notes" || isEmpty(value)) {
+        continue;
+      }
+      const citation = candidate.provenance?.[field];
+      if (UNION_FIELDS.includes(field) && Array.isArray(value)) {
+        const existing = Array.isArray(merged[field]) ? (merged[field] as unknown[]) : [];
+        merged[field] = dedupe([...existing, ...value]);
+      } else if (field === "emergency_24_7") {
+        merged[field] = merged[field] === true || value === true;
+        if (value !== true) {
+          continue;
+        }
+      } else if (!isEmpty(merged[field])) {
+        if (CONFLICT_FIELDS.includes(field) && merged[field] !== value && typeof value !== "object") {
+          conflicts.push(`${field}: kept ${String(merged[field])} over ${String(value)}`);
+        }
+        continue;
+      } else {
+        merged[field] = value;
+      }
+      if (citation && provenance[field] === undefined) {
+        provenance[field] = citation;
+      }
+    }
+    if (candidate.notes) {
+      notes.push(candidate.notes);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    notes.push(`Page chunks disagreed (${conflicts.join("; ")}).`);
+  }
+  return {
+    ...merged,
+    notes: notes.length > 0 ? dedupe(notes).join(" ") : undefined,
+    provenance,
+  } as T;
+};
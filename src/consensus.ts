@@ -0,0 +1,119 @@
+import type { CandidateRecord } from "./chunking";
+
+export type ModelCandidate<T extends CandidateRecord> = {
+  label: string;
+  candidate: T;
+};
+
+export type FieldDisagreement = {
+  field: string;
+  values: Record<string, string>;
+};
+
+export type ConsensusResult<T extends CandidateRecord> = {
+  candidate: T;
+  disagreements: FieldDisagreement[];
+};
+
+// Written differently by every model; taken from the primary model without comparison.
+const FREE_TEXT_FIELDS = ["short_description", "differentiator", "notes", "provenance"];
+
+// Bookkeeping fields the normalizer overwrites anyway.
+const IGNORED_FIELDS = ["schema_version", "slug", "data_origin", "evidence_level", "is_fictional"];
+
+// Required fields without a safe default keep the primary model's value on disagreement;
+// every other disputed value is dropped and left to the normalizer's defaults.
+const PRIMARY_WINS_FIELDS = ["name", "website", "lead_contact", "primary_services"];
+
+export const getEnsembleModels = (): string[] =>
+  Array.from(
+    new Set(
+      (process.env.LLM_ENSEMBLE_MODELS ?? "")
+        .split(",")
+        .map((model) => model.trim())
+        .filter(Boolean),
+    ),
+  );
+
+const canonicalize = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    return value.trim().toLowerCase();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize).sort();
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, entry]) => key !== "notes" && entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, canonicalize(entry)]),
+    );
+  }
+  return value;
+};
+
+const isStated = (value: unknown): boolean =>
+  value !== undefined &&
+  value !== null &&
+  !(typeof value === "string" && value.trim().length === 0) &&
+  !(Array.isArray(value) && value.length === 0);
+
+const describe = (value: unknown): string =>
+  !isStated(value) ? "(none)" : typeof value === "string" ? value : JSON.stringify(value);
+
+/**
+ * Compares the candidates of several models field by field. Values all models agree
+ * on are kept; list fields keep the items every model found (or the primary model's
+ * list if none are shared). Free-text fields come from the first (primary) model.
+ */
+export const buildConsensus = <T extends CandidateRecord>(
+  results: ModelCandidate<T>[],
+): ConsensusResult<T> => {
+  const [primary] = results;
+  const merged: CandidateRecord = {};
+  const disagreements: FieldDisagreement[] = [];
+  const fields = Array.from(new Set(results.flatMap(({ candidate }) => Object.keys(candidate))));
+
+  for (const field of fields) {
+    const primaryValue = primary.candidate[field];
+    if (FREE_TEXT_FIELDS.includes(field) || IGNORED_FIELDS.includes(field)) {
+      if (primaryValue !== undefined) {
+        merged[field] = primaryValue;
+      }
+      continue;
+    }
+    const values = results.map(({ candidate }) => candidate[field]);
+    const keys = values.map((value) => JSON.stringify(canonicalize(isStated(value) ? value : null)));
+    if (keys.every((key) => key === keys[0])) {
+      if (primaryValue !== undefined) {
+        merged[field] = primaryValue;
+      }
+      continue;
+    }
+
+    disagreements.push({
+      field,
+      values: Object.fromEntries(results.map(({ label, candidate }) => [label, describe(candidate[field])])),
+    });
+    if (values.every(Array.isArray)) {
+      const shared = (primaryValue as unknown[]).filter((item) =>
+        values.every((list) =>
+          (list as unknown[]).some(
+            (entry) => JSON.stringify(canonicalize(entry)) === JSON.stringify(canonicalize(item)),
+          ),
+        ),
+      );
+      merged[field] = shared.length > 0 ? shared : primaryValue;
+    } else if (PRIMARY_WINS_FIELDS.includes(field) && primaryValue !== undefined) {
+      merged[field] = primaryValue;
+    }
+  }
+
+  return { candidate: merged as T, disagreements };
+};
+
+export const formatDisagreement = (disagreement: FieldDisagreement): string =>
+  `${disagreement.field}: ${Object.entries(disagreement.values)
+    .map(([label, value]) => `${label}=${value}`)
+    .join(" / ")}`;
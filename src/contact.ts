@@ -0,0 +1,228 @@
+import type { CrawledPage } from "./crawl";
+import type { LeadContact } from "./schema";
+
+export type LeadContactType = LeadContact["type"];
+
+export type ContactCountry = "DE" | "AT" | "CH";
+
+/** What the browser hands over: raw mailto/tel targets and a summary of each form. */
+export type RawContactChannels = {
+  mailto: string[];
+  tel: string[];
+  forms: Array<{
+    inputTypes: string[];
+    inputNames: string[];
+    hasTextarea: boolean;
+  }>;
+};
+
+export type ContactChannels = {
+  emails: string[];
+  phones: string[];
+  hasContactForm: boolean;
+};
+
+export type VerifiedLeadContact = {
+  contact: LeadContact;
+  page: CrawledPage;
+  quote: string;
+};
+
+export const DEFAULT_LEAD_CONTACT_PREFERENCE: LeadContactType[] = ["email", "form", "phone"];
+
+const LEAD_CONTACT_TYPES: LeadContactType[] = ["email", "form", "phone"];
+
+const COUNTRY_CALLING_CODES: Record<ContactCountry, string> = { DE: "49", AT: "43", CH: "41" };
+
+const EMAIL_PATTERN = /^[\w.+-]+@[\w-]+(?:\.[\w-]+)+$/;
+
+// Inboxes that reach sales or a general desk, in order of preference.
+const PREFERRED_MAILBOXES = ["sales", "vertrieb", "anfrage", "kontakt", "contact", "info", "office", "hello", "mail"];
+
+// Inboxes that exist on most sites but are the wrong place for a customer inquiry.
+const EXCLUDED_MAILBOXES = [
+  "datenschutz",
+  "privacy",
+  "dsb",
+  "dpo",
+  "gdpr",
+  "jobs",
+  "job",
+  "karriere",
+  "career",
+  "careers",
+  "bewerbung",
+  "hr",
+  "presse",
+  "press",
+  "noreply",
+  "no-reply",
+  "webmaster",
+  "abuse",
+  "postmaster",
+];
+
+// Contact pages first, then the Impressum, then everything else in crawl order.
+const PAGE_PRIORITY = ["contact", "impressum", "home"];
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const normalizeEmail = (value: string): string | undefined => {
+  const address = safeDecode(value.replace(/^mailto:/i, "").split("?")[0] ?? "")
+    .trim()
+    .toLowerCase();
+  return EMAIL_PATTERN.test(address) ? address : undefined;
+};
+
+const isSearchOrLoginForm = (form: RawContactChannels["forms"][number]): boolean =>
+  form.inputTypes.some((type) => type === "search" || type === "password") ||
+  form.inputNames.some((name) => /^(?:q|s|search|query|suche)$/i.test(name));
+
+// Newsletter sign-ups have an email field but nothing to write into.
+const isContactForm = (form: RawContactChannels["forms"][number]): boolean => {
+  if (isSearchOrLoginForm(form)) {
+    return false;
+  }
+  const fields = form.inputTypes.filter((type) => !["hidden", "submit", "button", "checkbox"].includes(type));
+  return form.hasTextarea && fields.length > 0;
+};
+
+export const parseContactChannels = (raw: RawContactChannels): ContactChannels | undefined => {
+  const emails = Array.from(
+    new Set(raw.mailto.map(normalizeEmail).filter((email): email is string => Boolean(email))),
+  );
+  const phones = Array.from(
+    new Set(
+      raw.tel
+        .map((value) => safeDecode(value.replace(/^tel:/i, "")).trim())
+        .filter((value) => /\d{5,}/.test(value.replace(/\D/g, ""))),
+    ),
+  );
+  const hasContactForm = raw.forms.some(isContactForm);
+  if (emails.length === 0 && phones.length === 0 && !hasContactForm) {
+    return undefined;
+  }
+  return { emails, phones, hasContactForm };
+};
+
+/**
+ * Normalizes a phone number to E.164 (+4971311234567). National numbers need the
+ * country of the provider; without it they are left out instead of guessed.
+ */
+export const toE164 = (value: string, country?: ContactCountry): string | undefined => {
+  const compact = value
+    .replace(/\(0\)/g, "")
+    .replace(/[^\d+]/g, "")
+    .replace(/(?!^)\+/g, "");
+  let digits: string;
+  if (compact.startsWith("+")) {
+    digits = compact.slice(1);
+  } else if (compact.startsWith("00")) {
+    digits = compact.slice(2);
+  } else if (compact.startsWith("0") && country) {
+    digits = `${COUNTRY_CALLING_CODES[country]}${compact.slice(1)}`;
+  } else {
+    return undefined;
+  }
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : undefined;
+};
+
+export const inferContactCountry = (url: string): ContactCountry | undefined => {
+  const tld = new URL(url).hostname.split(".").pop()?.toUpperCase();
+  return tld === "DE" || tld === "AT" || tld === "CH" ? tld : undefined;
+};
+
+/**
+ * Reads LEAD_CONTACT_PREFERENCE, e.g. "form,email,phone". Types that are left out
+ * are never used for lead_contact from crawled data.
+ */
+export const getLeadContactPreference = (): LeadContactType[] => {
+  const configured = process.env.LEAD_CONTACT_PREFERENCE?.trim();
+  if (!configured) {
+    return DEFAULT_LEAD_CONTACT_PREFERENCE;
+  }
+  const entries = configured.split(",").map((entry) => entry.trim().toLowerCase());
+  const invalid = entries.filter((entry) => !LEAD_CONTACT_TYPES.includes(entry as LeadContactType));
+  if (invalid.length > 0) {
+    throw new Error(
+      `LEAD_CONTACT_PREFERENCE has unknown type(s): ${invalid.join(", ")}. Use ${LEAD_CONTACT_TYPES.join(", ")}.`,
+    );
+  }
+  return Array.from(new Set(entries)) as LeadContactType[];
+};
+
+const rankPage = (page: CrawledPage): number => {
+  const index = PAGE_PRIORITY.findIndex((key) => page.key === key || page.key.startsWith(`${key}-`));
+  return index >= 0 ? index : PAGE_PRIORITY.length;
+};
+
+const rankEmail = (email: string, siteHost: string): number => {
+  const [mailbox, domain] = email.split("@");
+  const sameDomain = domain === siteHost || siteHost.endsWith(`.${domain}`) || domain.endsWith(`.${siteHost}`);
+  const preferred = PREFERRED_MAILBOXES.indexOf(mailbox);
+  return (sameDomain ? 0 : 100) + (preferred >= 0 ? preferred : PREFERRED_MAILBOXES.length);
+};
+
+/**
+ * Picks lead_contact from mailto links, tel links and contact forms seen in the DOM
+ * of official pages, trying the types in preference order. Returns undefined when
+ * the crawl found nothing usable.
+ */
+export const selectLeadContact = (
+  pages: CrawledPage[],
+  options: { preference: LeadContactType[]; siteOrigin: string; country?: ContactCountry },
+): VerifiedLeadContact | undefined => {
+  const siteHost = new URL(options.siteOrigin).hostname.replace(/^www\./, "");
+  const ordered = pages
+    .filter((page) => page.contact && page.discoveryReason !== "external-proof")
+    .map((page, index) => ({ page, index }))
+    .sort((a, b) => rankPage(a.page) - rankPage(b.page) || a.index - b.index)
+    .map(({ page }) => page);
+
+  for (const type of options.preference) {
+    if (type === "email") {
+      const candidates = ordered.flatMap((page) =>
+        (page.contact?.emails ?? [])
+          .filter((email) => !EXCLUDED_MAILBOXES.includes(email.split("@")[0]))
+          .map((email) => ({ email, page })),
+      );
+      const best = candidates.sort(
+        (a, b) => rankEmail(a.email, siteHost) - rankEmail(b.email, siteHost),
+      )[0];
+      if (best) {
+        return {
+          contact: { type: "email", value: best.email },
+          page: best.page,
+          quote: `mailto:${best.email}`,
+        };
+      }
+    }
+    if (type === "form") {
+      const page = ordered.find((entry) => entry.contact?.hasContactForm);
+      if (page) {
+        return {
+          contact: { type: "form", value: page.finalUrl ?? page.url },
+          page,
+          quote: "Contact form on page",
+        };
+      }
+    }
+    if (type === "phone") {
+      for (const page of ordered) {
+        for (const phone of page.contact?.phones ?? []) {
+          const value = toE164(phone, options.country ?? inferContactCountry(page.url));
+          if (value) {
+            return { contact: { type: "phone", value }, page, quote: `tel:${phone}` };
+          }
+        }
+      }
+    }
+  }
+  return undefined;
+};
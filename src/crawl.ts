@@ -1,20 +1,80 @@
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, mkdtemp, readdir, readFile, rename, rm, unlink, writeFile } from "fs/promises";
 import path from "path";
-import { chromium } from "playwright";
+import { Browser, BrowserContext, chromium } from "playwright";
 
-import { dedupe, getOrigin, normalizeSlug, normalizeText } from "./utils";
+import { ContactChannels, parseContactChannels, RawContactChannels } from "./contact";
+import { extractPdfText, isPdfBuffer, PDF_CONTENT_TYPE } from "./pdf";
+import { acquireCrawlPermission, getCrawlerUserAgent } from "./robots";
+import { loadSitemapEntries, SitemapEntry } from "./sitemap";
+import { parseStructuredData, RawStructuredData, StructuredData } from "./structured";
+import { dedupe, getOrigin, hashText, Logger, normalizeSlug, normalizeText } from "./utils";
 
 export type CrawledPage = {
   key: string;
   url: string;
+  finalUrl?: string;
   status: number;
   text: string;
+  hash?: string;
   sourceUrl?: string;
   discoveryReason?: string;
+  language?: PageLanguage;
+  contentType?: typeof PDF_CONTENT_TYPE;
+  structured?: StructuredData;
+  contact?: ContactChannels;
+};
+
+export type PageLanguage = "de" | "en";
+
+export type SkippedUrl = {
+  url: string;
+  reason: string;
+};
+
+export type FailedUrl = {
+  url: string;
+  reason: string;
+};
+
+export type CrawlResult = {
+  pages: CrawledPage[];
+  skippedUrls: SkippedUrl[];
+  // Pages that errored or answered 4xx/5xx; guessed Impressum and contact paths are not counted.
+  failedUrls: FailedUrl[];
+};
+
+export type CrawlOptions = {
+  browser?: Browser;
+  logger?: Logger;
 };
 
 const DISCOVERY_MAX_PAGES = 12;
 const DISCOVERY_MAX_EXTERNAL_PAGES = 3;
+const DISCOVERY_MAX_PDFS = 3;
+const PDF_MAX_BYTES = 15 * 1024 * 1024;
+const PDF_MAX_TEXT_LENGTH = 20000;
+const PDF_TIMEOUT_MS = 30000;
+const PDF_KEYWORDS = [
+  "zertifikat",
+  "zertifizierung",
+  "certificate",
+  "certification",
+  "testat",
+  "attestation",
+  "bsi",
+  "27001",
+  "iso",
+  "datenblatt",
+  "datasheet",
+  "data-sheet",
+  "leistungsbeschreibung",
+  "leistungsuebersicht",
+  "service-description",
+  "brochure",
+  "broschuere",
+  "preisliste",
+  "price",
+];
 const MIN_TEXT_LENGTH = 600;
 const IMPRESSUM_PATHS = [
   "/impressum",
@@ -39,6 +99,8 @@ const IMPRESSUM_KEYWORDS = [
   "mentions legales",
   "mentions-legales",
 ];
+const CONTACT_PATHS = ["/kontakt", "/contact", "/contact-us", "/kontaktformular"];
+const CONTACT_KEYWORDS = ["kontakt", "contact", "get in touch", "get-in-touch", "anfrage"];
 const DISCOVERY_KEYWORDS = [
   "services",
   "service",
@@ -126,8 +188,16 @@ type DiscoveryCandidate = {
   score: number;
   depth: number;
   isExternal: boolean;
+  language?: PageLanguage;
+};
+
+type LanguageSignals = {
+  lang: string;
+  alternates: Array<{ hreflang: string; href: string }>;
 };
 
+const PAGE_LANGUAGES: PageLanguage[] = ["de", "en"];
+
 const extractVisibleText = async (page: { evaluate: <T>(fn: () => T) => Promise<T> }) =>
   page.evaluate(() => {
     const removeSelectors = [
@@ -206,15 +276,164 @@ const extractVisibleLinks = async (page: { evaluate: <T>(fn: () => T) => Promise
     return links;
   });
 
+const extractLanguageSignals = async (page: {
+  evaluate: <T>(fn: () => T) => Promise<T>;
+}): Promise<LanguageSignals> =>
+  page.evaluate(() => {
+    const switcherLabels: Record<string, string> = {
+      de: "de",
+      deutsch: "de",
+      german: "de",
+      en: "en",
+      english: "en",
+      englisch: "en",
+    };
+    const declared = Array.from(document.querySelectorAll("link[rel='alternate'][hreflang]")).map(
+      (link) => ({
+        hreflang: (link.getAttribute("hreflang") ?? "").toLowerCase(),
+        href: link.getAttribute("href") ?? "",
+      }),
+    );
+    const switchers = Array.from(document.querySelectorAll("a[href]")).flatMap((link) => {
+      const label = (link.textContent ?? "").trim().toLowerCase();
+      const code = link.getAttribute("hreflang") ?? switcherLabels[label] ?? "";
+      return code ? [{ hreflang: code.toLowerCase(), href: link.getAttribute("href") ?? "" }] : [];
+    });
+    return {
+      lang: (document.documentElement.getAttribute("lang") ?? "").toLowerCase(),
+      alternates: [...declared, ...switchers].filter((entry) => entry.href.length > 0),
+    };
+  });
+
+const extractStructuredMetadata = async (page: {
+  evaluate: <T>(fn: () => T) => Promise<T>;
+}): Promise<RawStructuredData> =>
+  page.evaluate(() => {
+    const jsonLd = Array.from(
+      document.querySelectorAll("script[type='application/ld+json']"),
+    ).map((script) => script.textContent ?? "");
+    const meta: Record<string, string> = {};
+    for (const tag of Array.from(document.querySelectorAll("meta[name], meta[property]"))) {
+      const key = (tag.getAttribute("property") ?? tag.getAttribute("name") ?? "").toLowerCase();
+      const content = tag.getAttribute("content") ?? "";
+      if (key && content && !(key in meta)) {
+        meta[key] = content;
+      }
+    }
+    return { jsonLd, meta };
+  });
+
+const extractContactChannels = async (page: {
+  evaluate: <T>(fn: () => T) => Promise<T>;
+}): Promise<RawContactChannels> =>
+  page.evaluate(() => {
+    const hrefs = (prefix: string) =>
+      Array.from(document.querySelectorAll(`a[href^='${prefix}' i]`)).map(
+        (link) => link.getAttribute("href") ?? "",
+      );
+    const forms = Array.from(document.querySelectorAll("form")).map((form) => {
+      const inputs = Array.from(form.querySelectorAll("input"));
+      return {
+        inputTypes: inputs.map((input) => (input.getAttribute("type") ?? "text").toLowerCase()),
+        inputNames: inputs.map((input) => input.getAttribute("name") ?? ""),
+        hasTextarea: form.querySelector("textarea") !== null,
+      };
+    });
+    return { mailto: hrefs("mailto:"), tel: hrefs("tel:"), forms };
+  });
+
+const toPageLanguage = (code: string | undefined): PageLanguage | undefined => {
+  const prefix = code?.trim().toLowerCase().slice(0, 2);
+  return PAGE_LANGUAGES.find((language) => language === prefix);
+};
+
+const getUrlLanguage = (url: string): PageLanguage | undefined => {
+  try {
+    const match = new URL(url).pathname.match(/^\/([a-z]{2})(?:[-_][a-z]{2})?(?:\/|$)/i);
+    return toPageLanguage(match?.[1]);
+  } catch {
+    return undefined;
+  }
+};
+
+const resolvePageLanguage = (signals: LanguageSignals, url: string): PageLanguage | undefined =>
+  toPageLanguage(signals.lang) ?? getUrlLanguage(url);
+
+/**
+ * Finds the start page of each other language version: declared hreflang
+ * alternates and language switcher links first, then `/en`/`/de` path prefixes.
+ */
+const findLanguageAlternates = (
+  signals: LanguageSignals,
+  links: DiscoveryLink[],
+  pageUrl: string,
+  origin: string,
+): Map<PageLanguage, string> => {
+  const alternates = new Map<PageLanguage, string>();
+  for (const entry of signals.alternates) {
+    const language = toPageLanguage(entry.hreflang);
+    let resolved: string;
+    try {
+      resolved = new URL(entry.href, pageUrl).toString();
+    } catch {
+      // A malformed href in the markup only costs this alternate.
+      continue;
+    }
+    const normalized = normalizeCandidateUrl(resolved, origin);
+    if (language && normalized && !normalized.isExternal && !alternates.has(language)) {
+      alternates.set(language, normalized.url);
+    }
+  }
+
+  const prefixed = links
+    .map((link) => normalizeCandidateUrl(link.href, origin))
+    .filter((entry): entry is { url: string; isExternal: boolean } => Boolean(entry && !entry.isExternal))
+    .map((entry) => entry.url)
+    .sort((a, b) => a.length - b.length);
+  for (const url of prefixed) {
+    const language = getUrlLanguage(url);
+    if (language && !alternates.has(language)) {
+      alternates.set(language, url);
+    }
+  }
+  return alternates;
+};
+
 const isTrustedExternalHost = (hostname: string): boolean => {
   return TRUSTED_EXTERNAL_HOSTS.some(
     (host) => hostname === host || hostname.endsWith(`.${host}`),
   );
 };
 
+const isPdfUrl = (url: string): boolean => new URL(url).pathname.toLowerCase().endsWith(".pdf");
+
+/** Reads a response body chunk by chunk; returns null and cancels it once it grows past `maxBytes`. */
+const readBodyUpTo = async (response: Response, maxBytes: number): Promise<Uint8Array | null> => {
+  if (!response.body) {
+    return new Uint8Array();
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    bytes += value.length;
+    if (bytes > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
 const normalizeCandidateUrl = (
   href: string,
   origin: string,
+  options: { allowPdf?: boolean } = {},
 ): { url: string; isExternal: boolean } | null => {
   try {
     if (href.startsWith("mailto:") || href.startsWith("tel:")) {
@@ -231,7 +450,8 @@ const normalizeCandidateUrl = (
     url.hash = "";
     url.search = "";
     const normalizedPath = url.pathname.replace(/\/+$/, "") || "/";
-    if (BLOCKED_EXTENSIONS.some((ext) => normalizedPath.toLowerCase().endsWith(ext))) {
+    const blocked = BLOCKED_EXTENSIONS.some((ext) => normalizedPath.toLowerCase().endsWith(ext));
+    if (blocked && !(options.allowPdf && normalizedPath.toLowerCase().endsWith(".pdf"))) {
       return null;
     }
     url.pathname = normalizedPath;
@@ -299,98 +519,71 @@ const scoreCandidate = (url: string, text: string, reason: string): { score: num
   return { score, depth };
 };
 
-const extractSitemapUrls = (xml: string): string[] => {
-  const urls: string[] = [];
-  const matches = xml.matchAll(/<loc>([^<]+)<\/loc>/gi);
-  for (const match of matches) {
-    if (match[1]) {
-      urls.push(match[1].trim());
-    }
-  }
-  return urls;
-};
+const SITEMAP_FRESH_DAYS = 365;
 
-const fetchSitemapUrlsFrom = async (url: string): Promise<string[]> => {
-  try {
-    const response = await fetch(url, { method: "GET" });
-    if (!response.ok) {
-      return [];
-    }
-    const text = await response.text();
-    if (!text.includes("<loc>")) {
-      return [];
-    }
-    return extractSitemapUrls(text);
-  } catch {
-    return [];
-  }
-};
-
-const collectSitemapCandidates = async (
+const collectSitemapCandidates = (
+  entries: SitemapEntry[],
   origin: string,
   sourceUrl: string,
-): Promise<DiscoveryCandidate[]> => {
-  const sitemapUrl = `${origin}/sitemap.xml`;
-  const rootUrls = await fetchSitemapUrlsFrom(sitemapUrl);
-  if (rootUrls.length === 0) {
-    return [];
-  }
-
-  const nestedSitemaps = rootUrls.filter((entry) => entry.endsWith(".xml") || entry.includes("sitemap"));
-  const sitemapUrls = nestedSitemaps.length > 0 && nestedSitemaps.length <= 15
-    ? (await Promise.all(nestedSitemaps.map(fetchSitemapUrlsFrom))).flat()
-    : rootUrls;
-
+): DiscoveryCandidate[] => {
   const candidates: DiscoveryCandidate[] = [];
-  for (const entry of dedupe(sitemapUrls)) {
-    const normalized = normalizeCandidateUrl(entry, origin);
+  const now = Date.now();
+  for (const entry of entries) {
+    const normalized = normalizeCandidateUrl(entry.loc, origin);
     if (!normalized || normalized.isExternal) {
       continue;
     }
     const reason = findDiscoveryReason(normalized.url) ?? "sitemap";
     const { score, depth } = scoreCandidate(normalized.url, "", reason);
+    // Recently maintained pages and pages with language alternates are usually core pages.
+    const lastmod = Date.parse(entry.lastmod ?? "");
+    const freshnessBonus =
+      Number.isFinite(lastmod) && now - lastmod < SITEMAP_FRESH_DAYS * 24 * 60 * 60 * 1000 ? 1 : 0;
+    const alternatesBonus = entry.alternates.length > 0 ? 1 : 0;
+    const selfAlternate = entry.alternates.find((alternate) => alternate.href === entry.loc);
     candidates.push({
       url: normalized.url,
       reason,
       sourceUrl,
-      score,
+      score: score + freshnessBonus + alternatesBonus,
       depth,
       isExternal: false,
+      language: getUrlLanguage(normalized.url) ?? toPageLanguage(selfAlternate?.hreflang),
     });
   }
 
   return candidates;
 };
 
-const collectSitemapUrls = async (origin: string): Promise<string[]> => {
-  const sitemapUrl = `${origin}/sitemap.xml`;
-  const rootUrls = await fetchSitemapUrlsFrom(sitemapUrl);
-  if (rootUrls.length === 0) {
-    return [];
-  }
-
-  const nestedSitemaps = rootUrls.filter((entry) => entry.endsWith(".xml") || entry.includes("sitemap"));
-  const sitemapUrls = nestedSitemaps.length > 0 && nestedSitemaps.length <= 15
-    ? (await Promise.all(nestedSitemaps.map(fetchSitemapUrlsFrom))).flat()
-    : rootUrls;
-
-  const urls: string[] = [];
-  for (const entry of dedupe(sitemapUrls)) {
-    const normalized = normalizeCandidateUrl(entry, origin);
-    if (!normalized || normalized.isExternal) {
-      continue;
-    }
-    urls.push(normalized.url);
-  }
+const isContactMatch = (value: string): boolean => {
+  const lower = value.toLowerCase();
+  return CONTACT_KEYWORDS.some((keyword) => lower.includes(keyword));
+};
 
-  return dedupe(urls);
+// Shortest match first: "/kontakt" beats "/kontakt/anfahrt".
+const findContactCandidateFromLinks = (links: DiscoveryLink[], origin: string): string | null => {
+  const matches = links
+    .filter((link) => isContactMatch(`${link.href} ${link.text}`))
+    .map((link) => normalizeCandidateUrl(link.href, origin))
+    .filter((entry): entry is { url: string; isExternal: boolean } => Boolean(entry && !entry.isExternal))
+    .map((entry) => entry.url)
+    .sort((a, b) => a.length - b.length);
+  return matches[0] ?? null;
 };
 
-const findImpressumCandidateFromSitemap = async (origin: string): Promise<string | null> => {
-  const urls = await collectSitemapUrls(origin);
-  for (const url of urls) {
-    if (isImpressumMatch(url)) {
-      return url;
+const findContactCandidateFromSitemap = (entries: SitemapEntry[], origin: string): string | null =>
+  entries
+    .map((entry) => normalizeCandidateUrl(entry.loc, origin))
+    .filter((entry): entry is { url: string; isExternal: boolean } => Boolean(entry && !entry.isExternal))
+    .map((entry) => entry.url)
+    .filter((url) => isContactMatch(new URL(url).pathname))
+    .sort((a, b) => a.length - b.length)[0] ?? null;
+
+const findImpressumCandidateFromSitemap = (entries: SitemapEntry[], origin: string): string | null => {
+  for (const entry of entries) {
+    const normalized = normalizeCandidateUrl(entry.loc, origin);
+    if (normalized && !normalized.isExternal && isImpressumMatch(normalized.url)) {
+      return normalized.url;
     }
   }
   return null;
@@ -515,6 +708,7 @@ const collectDiscoveryCandidates = (
   links: DiscoveryLink[],
   origin: string,
   sourceUrl: string,
+  sourceLanguage?: PageLanguage,
 ): DiscoveryCandidate[] => {
   const candidates: DiscoveryCandidate[] = [];
   for (const link of links) {
@@ -534,16 +728,42 @@ const collectDiscoveryCandidates = (
       score,
       depth,
       isExternal: normalized.isExternal,
+      language: normalized.isExternal
+        ? undefined
+        : getUrlLanguage(normalized.url) ?? sourceLanguage,
     });
   }
   return candidates;
 };
 
+const collectPdfCandidates = (
+  links: DiscoveryLink[],
+  origin: string,
+  sourceUrl: string,
+): DiscoveryCandidate[] => {
+  const candidates: DiscoveryCandidate[] = [];
+  for (const link of links) {
+    const normalized = normalizeCandidateUrl(link.href, origin, { allowPdf: true });
+    if (!normalized || normalized.isExternal || !isPdfUrl(normalized.url)) {
+      continue;
+    }
+    const combined = `${normalized.url} ${link.text}`.toLowerCase();
+    const reason = PDF_KEYWORDS.find((keyword) => combined.includes(keyword));
+    if (!reason) {
+      continue;
+    }
+    const { score, depth } = scoreCandidate(normalized.url, link.text, reason);
+    candidates.push({ url: normalized.url, reason, sourceUrl, score, depth, isExternal: false });
+  }
+  return candidates;
+};
+
 const selectDiscoveryTargets = (
   candidates: DiscoveryCandidate[],
   visitedUrls: Set<string>,
   maxTargets: number,
   maxExternalTargets: number,
+  languages: PageLanguage[] = [],
 ): DiscoveryCandidate[] => {
   const unique = new Map<string, DiscoveryCandidate>();
   for (const candidate of candidates) {
@@ -567,35 +787,114 @@ const selectDiscoveryTargets = (
       return a.url.localeCompare(b.url);
     });
 
+  // With several language versions, each language first gets an equal share of the
+  // internal budget; slots a language cannot use go to the best remaining candidates.
+  const primaryLanguage = languages[0];
+  const languageQuota =
+    languages.length > 1 ? Math.ceil((maxTargets - maxExternalTargets) / languages.length) : Infinity;
+  const perLanguage = new Map<PageLanguage, number>();
   const selected: DiscoveryCandidate[] = [];
   let externalCount = 0;
-  for (const candidate of sorted) {
-    if (selected.length >= maxTargets) {
-      break;
+
+  const take = (candidate: DiscoveryCandidate, enforceQuota: boolean): boolean => {
+    if (selected.length >= maxTargets || selected.includes(candidate)) {
+      return false;
     }
     if (candidate.isExternal) {
       if (externalCount >= maxExternalTargets) {
-        continue;
+        return false;
       }
       externalCount += 1;
+      selected.push(candidate);
+      return true;
+    }
+    const language = candidate.language ?? primaryLanguage;
+    const used = language ? perLanguage.get(language) ?? 0 : 0;
+    if (enforceQuota && language && used >= languageQuota) {
+      return false;
+    }
+    if (language) {
+      perLanguage.set(language, used + 1);
     }
     selected.push(candidate);
+    return true;
+  };
+
+  for (const candidate of sorted) {
+    take(candidate, true);
+  }
+  if (languageQuota !== Infinity) {
+    for (const candidate of sorted) {
+      take(candidate, false);
+    }
   }
 
   return selected;
 };
 
-export const crawlSeed = async (seedUrl: string, outDir: string): Promise<CrawledPage[]> => {
-  const slug = normalizeSlug(seedUrl);
-  const origin = getOrigin(seedUrl);
-  await mkdir(outDir, { recursive: true });
+const RAW_KEY_ORDER = ["home", "impressum", "contact", "fallback", "discovered", "pdf"];
 
-  const browser = await chromium.launch();
-  const context = await browser.newContext({
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
-    locale: "de-DE",
-  });
+const compareRawKeys = (a: string, b: string): number => {
+  const rank = (key: string) => {
+    const index = RAW_KEY_ORDER.findIndex((prefix) => key === prefix || key.startsWith(`${prefix}-`));
+    return index >= 0 ? index : RAW_KEY_ORDER.length;
+  };
+  const suffix = (key: string) => Number.parseInt(key.split("-").pop() ?? "", 10) || 0;
+  return rank(a) - rank(b) || suffix(a) - suffix(b) || a.localeCompare(b);
+};
+
+const readRawPageFiles = async (
+  slug: string,
+  outDir: string,
+): Promise<Array<{ filePath: string; page: CrawledPage }>> => {
+  let entries: string[];
+  try {
+    entries = await readdir(outDir);
+  } catch {
+    return [];
+  }
+
+  const files: Array<{ filePath: string; page: CrawledPage }> = [];
+  for (const entry of entries) {
+    if (!entry.startsWith(`${slug}-`) || !entry.endsWith(".json")) {
+      continue;
+    }
+    const filePath = path.join(outDir, entry);
+    try {
+      const page = JSON.parse(await readFile(filePath, "utf8")) as CrawledPage;
+      // Another slug can share this prefix ("acme" vs "acme-labs"), so the key must
+      // reproduce the exact filename.
+      if (typeof page.key === "string" && `${slug}-${page.key}.json` === entry) {
+        files.push({ filePath, page });
+      }
+    } catch {
+      continue;
+    }
+  }
+  return files;
+};
+
+export const loadRawPages = async (slug: string, outDir: string): Promise<CrawledPage[]> => {
+  const files = await readRawPageFiles(slug, outDir);
+  return files
+    .map((file) => file.page)
+    .filter((page) => typeof page.url === "string" && typeof page.text === "string")
+    .sort((a, b) => compareRawKeys(a.key, b.key));
+};
+
+const clearRawPages = async (slug: string, outDir: string) => {
+  const files = await readRawPageFiles(slug, outDir);
+  await Promise.all(files.map((file) => unlink(file.filePath).catch(() => undefined)));
+};
+
+const crawlWithContext = async (
+  context: BrowserContext,
+  seedUrl: string,
+  outDir: string,
+  logger: Logger,
+): Promise<CrawlResult> => {
+  const slug = normalizeSlug(seedUrl);
+  let origin = getOrigin(seedUrl);
   const page = await context.newPage();
   await page.addInitScript(() => {
     (window as unknown as { __name?: (target: unknown) => unknown }).__name =
@@ -604,6 +903,32 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
   const results: CrawledPage[] = [];
   const discoveryCandidates: DiscoveryCandidate[] = [];
   const visitedUrls = new Set<string>();
+  const skippedUrls: SkippedUrl[] = [];
+  const failedUrls: FailedUrl[] = [];
+  const recordFailure = (url: string, reason: string) => {
+    if (!failedUrls.some((entry) => entry.url === url)) {
+      failedUrls.push({ url, reason });
+    }
+  };
+  const capturedLinks: Array<{ links: DiscoveryLink[]; sourceUrl: string }> = [];
+  let sitemapEntries: Promise<SitemapEntry[]> | null = null;
+  const getSitemapEntries = () => {
+    sitemapEntries = sitemapEntries ?? loadSitemapEntries(origin);
+    return sitemapEntries;
+  };
+
+  const isCrawlAllowed = async (targetUrl: string): Promise<boolean> => {
+    const permission = await acquireCrawlPermission(targetUrl);
+    if (permission.allowed) {
+      return true;
+    }
+    if (!skippedUrls.some((entry) => entry.url === targetUrl)) {
+      const reason = permission.reason ?? "Not allowed";
+      skippedUrls.push({ url: targetUrl, reason });
+      logger.log(`Skipped ${targetUrl}: ${reason}`);
+    }
+    return false;
+  };
 
   const upsertResult = (record: CrawledPage) => {
     const index = results.findIndex((entry) => entry.key === record.key);
@@ -618,62 +943,133 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
     key: string,
     targetUrl: string,
     waitUntil: "domcontentloaded" | "networkidle",
+    fallbackLanguage?: PageLanguage,
+    guessed = false,
   ) => {
+    if (!(await isCrawlAllowed(targetUrl))) {
+      return null;
+    }
     const response = await page.goto(targetUrl, {
       waitUntil,
       timeout: 30000,
     });
     const status = response?.status() ?? 0;
     if (status >= 400) {
-      console.warn(`Crawl failed (${status}) for ${targetUrl}`);
+      logger.warn(`Crawl failed (${status}) for ${targetUrl}`);
+      if (!guessed) {
+        recordFailure(targetUrl, `HTTP ${status}`);
+      }
       return null;
     }
 
+    // Language switchers, JSON-LD, meta tags and footer mailto links live in parts that text extraction removes.
+    const languageSignals = await extractLanguageSignals(page);
+    const structured = parseStructuredData(await extractStructuredMetadata(page));
+    const contact = parseContactChannels(await extractContactChannels(page));
     const rawText = await extractVisibleText(page);
     const text = normalizeText(rawText);
+    const finalUrl = page.url();
     const record: CrawledPage = {
       key,
       url: targetUrl,
+      finalUrl: finalUrl !== targetUrl && /^https?:/.test(finalUrl) ? finalUrl : undefined,
       status,
       text,
+      hash: hashText(text),
+      language: resolvePageLanguage(languageSignals, targetUrl) ?? fallbackLanguage,
+      structured,
+      contact,
     };
     upsertResult(record);
     const filename = path.join(outDir, `${slug}-${key}.json`);
     await writeFile(filename, JSON.stringify(record, null, 2), "utf8");
     const links = await extractVisibleLinks(page);
-    return { record, links };
+    capturedLinks.push({ links, sourceUrl: targetUrl });
+    return { record, links, languageSignals };
   };
 
   visitedUrls.add(seedUrl);
   let homeLinks: DiscoveryLink[] = [];
   let homeTextLength = 0;
+  let homeLanguage: PageLanguage | undefined;
+  let homeLanguageSignals: LanguageSignals = { lang: "", alternates: [] };
   try {
     const homeResult = await capturePage("home", seedUrl, "domcontentloaded");
     if (homeResult) {
       homeLinks = homeResult.links;
       homeTextLength = homeResult.record.text.length;
+      homeLanguage = homeResult.record.language;
+      homeLanguageSignals = homeResult.languageSignals;
     }
     if (homeTextLength < MIN_TEXT_LENGTH) {
       const retryResult = await capturePage("home", seedUrl, "networkidle");
       if (retryResult) {
         homeLinks = retryResult.links;
         homeTextLength = retryResult.record.text.length;
+        homeLanguage = retryResult.record.language;
+        homeLanguageSignals = retryResult.languageSignals;
       }
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    console.warn(`Homepage crawl failed for ${slug}: ${message}`);
+    logger.warn(`Homepage crawl failed for ${slug}: ${message}`);
+    recordFailure(seedUrl, message);
+  }
+
+  // After a rebrand or domain move the seed redirects; discover pages on the new origin.
+  const canonicalOrigin = getCanonicalOrigin(seedUrl, results);
+  if (canonicalOrigin !== origin) {
+    logger.log(`${seedUrl} redirects to ${canonicalOrigin}; discovering pages there.`);
+    origin = canonicalOrigin;
   }
 
   if (homeLinks.length > 0) {
-    discoveryCandidates.push(...collectDiscoveryCandidates(homeLinks, origin, seedUrl));
+    discoveryCandidates.push(
+      ...collectDiscoveryCandidates(homeLinks, origin, seedUrl, homeLanguage),
+    );
   }
 
-  const captureImpressum = async (targetUrl: string) => {
+  const crawledLanguages: PageLanguage[] = homeLanguage ? [homeLanguage] : [];
+  // Relative hreflang hrefs resolve against the page that declared them, i.e. after redirects.
+  const homeUrl = results.find((page) => page.key === "home")?.finalUrl ?? seedUrl;
+  const languageAlternates = findLanguageAlternates(homeLanguageSignals, homeLinks, homeUrl, origin);
+  for (const [language, targetUrl] of languageAlternates) {
+    if (language === homeLanguage || visitedUrls.has(targetUrl)) {
+      continue;
+    }
+    visitedUrls.add(targetUrl);
+    try {
+      const result = await capturePage(
+        `home-${language}`,
+        targetUrl,
+        "domcontentloaded",
+        language,
+      );
+      const variantLanguage = result?.record.language;
+      if (!result || !variantLanguage) {
+        continue;
+      }
+      if (!crawledLanguages.includes(variantLanguage)) {
+        crawledLanguages.push(variantLanguage);
+      }
+      discoveryCandidates.push(
+        ...collectDiscoveryCandidates(result.links, origin, targetUrl, variantLanguage),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Language variant crawl failed for ${targetUrl}: ${message}`);
+      recordFailure(targetUrl, message);
+    }
+  }
+  if (crawledLanguages.length > 1) {
+    logger.log(`Language variants for ${slug}: ${crawledLanguages.join(", ")}`);
+  }
+
+  const captureImpressum = async (targetUrl: string, guessed = false) => {
     if (visitedUrls.has(targetUrl)) {
       return null;
     }
-    const result = await capturePage("impressum", targetUrl, "domcontentloaded");
+    const result = await capturePage("impressum", targetUrl, "domcontentloaded", undefined, guessed);
     if (!result) {
       return null;
     }
@@ -694,7 +1090,8 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.warn(`Impressum crawl failed for ${impressumFromLinks}: ${message}`);
+      logger.warn(`Impressum crawl failed for ${impressumFromLinks}: ${message}`);
+      recordFailure(impressumFromLinks, message);
     }
   }
 
@@ -723,13 +1120,17 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        console.warn(`Fallback crawl failed for ${targetUrl}: ${message}`);
+        logger.warn(`Fallback crawl failed for ${targetUrl}: ${message}`);
+        recordFailure(targetUrl, message);
       }
     }
   }
 
   if (!impressumCaptured) {
-    const impressumFromSitemap = await findImpressumCandidateFromSitemap(origin);
+    const impressumFromSitemap = findImpressumCandidateFromSitemap(
+      await getSitemapEntries(),
+      origin,
+    );
     if (impressumFromSitemap) {
       try {
         if (await captureImpressum(impressumFromSitemap)) {
@@ -737,7 +1138,8 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        console.warn(`Impressum crawl failed for ${impressumFromSitemap}: ${message}`);
+        logger.warn(`Impressum crawl failed for ${impressumFromSitemap}: ${message}`);
+        recordFailure(impressumFromSitemap, message);
       }
     }
   }
@@ -746,21 +1148,65 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
     for (const pathEntry of IMPRESSUM_PATHS) {
       const targetUrl = new URL(pathEntry, origin).toString();
       try {
-        if (await captureImpressum(targetUrl)) {
+        if (await captureImpressum(targetUrl, true)) {
           impressumCaptured = true;
           break;
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        console.warn(`Impressum crawl failed for ${targetUrl}: ${message}`);
+        logger.warn(`Impressum crawl failed for ${targetUrl}: ${message}`);
       }
     }
   }
   if (!impressumCaptured) {
-    console.warn(`No impressum page found for ${slug}.`);
+    logger.warn(`No impressum page found for ${slug}.`);
+  }
+
+  // The contact page feeds lead_contact, so it is captured up front instead of competing in discovery.
+  const captureContact = async (targetUrl: string, guessed = false) => {
+    if (visitedUrls.has(targetUrl)) {
+      return null;
+    }
+    const result = await capturePage("contact", targetUrl, "domcontentloaded", undefined, guessed);
+    if (!result) {
+      return null;
+    }
+    visitedUrls.add(targetUrl);
+    if (result.links.length > 0) {
+      discoveryCandidates.push(...collectDiscoveryCandidates(result.links, origin, targetUrl));
+    }
+    return result;
+  };
+
+  const linkedContactUrls = [
+    homeLinks.length > 0 ? findContactCandidateFromLinks(homeLinks, origin) : null,
+    findContactCandidateFromSitemap(await getSitemapEntries(), origin),
+  ].filter((url): url is string => Boolean(url));
+  const contactCandidates = dedupe([
+    ...linkedContactUrls,
+    ...CONTACT_PATHS.map((pathEntry) => new URL(pathEntry, origin).toString()),
+  ]);
+  let contactCaptured = false;
+  for (const targetUrl of contactCandidates) {
+    const guessed = !linkedContactUrls.includes(targetUrl);
+    try {
+      if (await captureContact(targetUrl, guessed)) {
+        contactCaptured = true;
+        break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Contact crawl failed for ${targetUrl}: ${message}`);
+      if (!guessed) {
+        recordFailure(targetUrl, message);
+      }
+    }
+  }
+  if (!contactCaptured) {
+    logger.warn(`No contact page found for ${slug}.`);
   }
 
-  const sitemapCandidates = await collectSitemapCandidates(origin, seedUrl);
+  const sitemapCandidates = collectSitemapCandidates(await getSitemapEntries(), origin, seedUrl);
   if (sitemapCandidates.length > 0) {
     discoveryCandidates.push(...sitemapCandidates);
   }
@@ -775,9 +1221,10 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
     visitedUrls,
     DISCOVERY_MAX_PAGES,
     DISCOVERY_MAX_EXTERNAL_PAGES,
+    crawledLanguages,
   );
   if (discoveryTargets.length > 0) {
-    console.log(
+    logger.log(
       `Discovery targets for ${slug}: ${discoveryTargets.map((target) => target.url).join(", ")}`,
     );
   }
@@ -786,14 +1233,26 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
   for (const target of discoveryTargets) {
     visitedUrls.add(target.url);
     try {
+      if (!(await isCrawlAllowed(target.url))) {
+        continue;
+      }
       const response = await page.goto(target.url, {
         waitUntil: "domcontentloaded",
         timeout: 30000,
       });
       const status = response?.status() ?? 0;
       if (status >= 400) {
+        recordFailure(target.url, `HTTP ${status}`);
         continue;
       }
+      const languageSignals = await extractLanguageSignals(page);
+      // JSON-LD on third-party pages describes their publisher, not the provider.
+      const structured = target.isExternal
+        ? undefined
+        : parseStructuredData(await extractStructuredMetadata(page));
+      const contact = target.isExternal
+        ? undefined
+        : parseContactChannels(await extractContactChannels(page));
       const rawText = await extractVisibleText(page);
       const text = normalizeText(rawText);
       discoveredIndex += 1;
@@ -803,21 +1262,165 @@ export const crawlSeed = async (seedUrl: string, outDir: string): Promise<Crawle
         url: target.url,
         status,
         text,
+        hash: hashText(text),
         sourceUrl: target.sourceUrl,
         discoveryReason: target.isExternal ? "external-proof" : target.reason,
+        language: target.isExternal
+          ? undefined
+          : resolvePageLanguage(languageSignals, target.url) ?? target.language,
+        structured,
+        contact,
       };
       results.push(record);
       const filename = path.join(outDir, `${slug}-${key}.json`);
       await writeFile(filename, JSON.stringify(record, null, 2), "utf8");
+      if (!target.isExternal) {
+        capturedLinks.push({ links: await extractVisibleLinks(page), sourceUrl: target.url });
+      }
       if (discoveredIndex >= DISCOVERY_MAX_PAGES) {
         break;
       }
     } catch (error) {
+      recordFailure(target.url, error instanceof Error ? error.message : String(error));
       continue;
     }
   }
 
-  await context.close();
-  await browser.close();
-  return results;
+  const capturePdf = async (key: string, target: DiscoveryCandidate): Promise<CrawledPage | null> => {
+    if (!(await isCrawlAllowed(target.url))) {
+      return null;
+    }
+    const response = await fetch(target.url, {
+      headers: { "User-Agent": getCrawlerUserAgent() },
+      signal: AbortSignal.timeout(PDF_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      logger.warn(`PDF fetch failed (${response.status}) for ${target.url}`);
+      recordFailure(target.url, `HTTP ${response.status}`);
+      return null;
+    }
+    const rejectTooLarge = (size: string) => {
+      logger.warn(`Skipping ${target.url}: ${size} is larger than ${PDF_MAX_BYTES} bytes.`);
+      recordFailure(target.url, `too large: ${size}`);
+      return null;
+    };
+    const declaredLength = Number(response.headers.get("content-length") ?? 0);
+    if (declaredLength > PDF_MAX_BYTES) {
+      await response.body?.cancel().catch(() => undefined);
+      return rejectTooLarge(`${declaredLength} bytes`);
+    }
+    // Servers that omit Content-Length are stopped while the body streams in.
+    const bytes = await readBodyUpTo(response, PDF_MAX_BYTES);
+    if (!bytes) {
+      return rejectTooLarge(`more than ${PDF_MAX_BYTES} bytes`);
+    }
+    if (!isPdfBuffer(bytes)) {
+      logger.warn(`Skipping ${target.url}: not a PDF.`);
+      return null;
+    }
+    const { text: rawText } = await extractPdfText(bytes);
+    const text = normalizeText(rawText).slice(0, PDF_MAX_TEXT_LENGTH);
+    if (text.length === 0) {
+      // Scanned certificates without a text layer carry nothing the extractor can cite.
+      logger.warn(`PDF has no text layer: ${target.url}`);
+      return null;
+    }
+    const record: CrawledPage = {
+      key,
+      url: target.url,
+      status: response.status,
+      text,
+      hash: hashText(text),
+      sourceUrl: target.sourceUrl,
+      discoveryReason: target.reason,
+      contentType: PDF_CONTENT_TYPE,
+    };
+    results.push(record);
+    const filename = path.join(outDir, `${slug}-${key}.json`);
+    await writeFile(filename, JSON.stringify(record, null, 2), "utf8");
+    return record;
+  };
+
+  const sitemapPdfLinks = (await getSitemapEntries()).map((entry) => ({ href: entry.loc, text: "" }));
+  const pdfCandidates = [
+    ...capturedLinks.flatMap((entry) => collectPdfCandidates(entry.links, origin, entry.sourceUrl)),
+    ...collectPdfCandidates(sitemapPdfLinks, origin, seedUrl),
+  ];
+  const pdfTargets = selectDiscoveryTargets(pdfCandidates, visitedUrls, DISCOVERY_MAX_PDFS, 0);
+  if (pdfTargets.length > 0) {
+    logger.log(`PDF targets for ${slug}: ${pdfTargets.map((target) => target.url).join(", ")}`);
+  }
+
+  let pdfIndex = 0;
+  for (const target of pdfTargets) {
+    visitedUrls.add(target.url);
+    try {
+      if (await capturePdf(`pdf-${pdfIndex + 1}`, target)) {
+        pdfIndex += 1;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`PDF capture failed for ${target.url}: ${message}`);
+      recordFailure(target.url, message);
+    }
+  }
+
+  return { pages: results, skippedUrls, failedUrls };
+};
+
+/** Origin the seed's homepage finally resolved to, following redirects. */
+export const getCanonicalOrigin = (seedUrl: string, pages: CrawledPage[]): string => {
+  const home = pages.find((page) => page.key === "home");
+  return getOrigin(home?.finalUrl ?? seedUrl);
+};
+
+export const hashPages = (pages: CrawledPage[]): string =>
+  hashText(
+    [...pages]
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map((page) => `${page.key}\n${page.url}\n${page.hash ?? hashText(page.text)}`)
+      .join("\n"),
+  );
+
+export const launchCrawlerBrowser = (): Promise<Browser> => chromium.launch();
+
+export const crawlSeed = async (
+  seedUrl: string,
+  outDir: string,
+  options: CrawlOptions = {},
+): Promise<CrawlResult> => {
+  await mkdir(outDir, { recursive: true });
+  const slug = normalizeSlug(seedUrl);
+  const logger = options.logger ?? console;
+  // Snapshots are written to a scratch directory and only replace the previous ones
+  // once the crawl captured something, so a failed crawl leaves --from-raw input intact.
+  const crawlDir = await mkdtemp(path.join(outDir, `.${slug}-crawl-`));
+
+  const browser = options.browser ?? (await launchCrawlerBrowser());
+  try {
+    const context = await browser.newContext({
+      userAgent: getCrawlerUserAgent(),
+      locale: "de-DE",
+    });
+    try {
+      const result = await crawlWithContext(context, seedUrl, crawlDir, logger);
+      if (result.pages.length === 0) {
+        logger.warn(`No pages captured for ${slug}; keeping the previous raw snapshots.`);
+        return result;
+      }
+      await clearRawPages(slug, outDir);
+      for (const entry of await readdir(crawlDir)) {
+        await rename(path.join(crawlDir, entry), path.join(outDir, entry));
+      }
+      return result;
+    } finally {
+      await context.close();
+    }
+  } finally {
+    await rm(crawlDir, { recursive: true, force: true });
+    if (!options.browser) {
+      await browser.close();
+    }
+  }
 };
@@ -0,0 +1,178 @@
+const FOUNDING_TERMS = [
+  "gegruendet",
+  "gruendung",
+  "gruendungsjahr",
+  "founded",
+  "established",
+  "since",
+  "seit",
+  "est",
+  "incorporated",
+];
+
+const FOUNDING_WINDOW_TOKENS = 4;
+const WINDOW_SLACK = 3;
+const MIN_TOKEN_COVERAGE = 0.8;
+
+type FoldedText = {
+  text: string;
+  tokens: string[];
+};
+
+export type EvidenceIndex = {
+  expanded: FoldedText;
+  stripped: FoldedText;
+};
+
+export type FoundedYearEvidence = {
+  status: "supported" | "weak" | "missing";
+  reason?: string;
+};
+
+const foldUmlauts = (value: string, mode: "expand" | "strip"): string => {
+  const lower = value.toLowerCase();
+  const replaced =
+    mode === "expand"
+      ? lower.replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue").replace(/ß/g, "ss")
+      : lower.replace(/ß/g, "ss");
+  return replaced
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+};
+
+const foldText = (value: string, mode: "expand" | "strip"): FoldedText => {
+  const text = foldUmlauts(value, mode);
+  return { text, tokens: text.length > 0 ? text.split(" ") : [] };
+};
+
+const isNumericToken = (token: string): boolean => /^\d+$/.test(token);
+
+const editDistanceAtMostOne = (a: string, b: string): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i += 1;
+      j += 1;
+      continue;
+    }
+    edits += 1;
+    if (edits > 1) {
+      return false;
+    }
+    if (a.length > b.length) {
+      i += 1;
+    } else if (b.length > a.length) {
+      j += 1;
+    } else {
+      i += 1;
+      j += 1;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+// Numbers (ISO norms, years) must match exactly; longer words tolerate one typo.
+const tokensMatch = (expected: string, actual: string): boolean => {
+  if (expected === actual) {
+    return true;
+  }
+  if (isNumericToken(expected) || isNumericToken(actual) || expected.length < 5) {
+    return false;
+  }
+  return editDistanceAtMostOne(expected, actual);
+};
+
+const containsPhrase = (haystack: string, needle: string): boolean =>
+  needle.length > 0 && ` ${haystack} `.includes(` ${needle} `);
+
+const matchesWithinWindow = (source: FoldedText, value: FoldedText): boolean => {
+  const needed = value.tokens;
+  if (needed.length === 0) {
+    return false;
+  }
+  if (containsPhrase(source.text, value.text)) {
+    return true;
+  }
+
+  const numeric = needed.filter(isNumericToken);
+  if (numeric.some((token) => !source.tokens.includes(token))) {
+    return false;
+  }
+
+  const required = Math.ceil(needed.length * MIN_TOKEN_COVERAGE);
+  const windowSize = needed.length + WINDOW_SLACK;
+  for (let start = 0; start < source.tokens.length; start += 1) {
+    if (!needed.some((token) => tokensMatch(token, source.tokens[start]))) {
+      continue;
+    }
+    const window = source.tokens.slice(start, start + windowSize);
+    const matched = needed.filter((token) => window.some((candidate) => tokensMatch(token, candidate)));
+    if (matched.length >= required && numeric.every((token) => window.includes(token))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const createEvidenceIndex = (text: string): EvidenceIndex => ({
+  expanded: foldText(text, "expand"),
+  stripped: foldText(text, "strip"),
+});
+
+/**
+ * Checks that a value literally occurs in the crawled text. Matching is
+ * case-insensitive, treats "ü"/"ue"/"u" spellings as equivalent and tolerates
+ * punctuation, small gaps between words and single-letter typos.
+ */
+export const hasLiteralEvidence = (index: EvidenceIndex, value: string): boolean =>
+  matchesWithinWindow(index.expanded, foldText(value, "expand")) ||
+  matchesWithinWindow(index.stripped, foldText(value, "strip"));
+
+export const verifyFoundedYear = (index: EvidenceIndex, year: number): FoundedYearEvidence => {
+  const token = String(year);
+  const tokens = index.expanded.tokens;
+  let mentioned = false;
+  for (let position = 0; position < tokens.length; position += 1) {
+    if (tokens[position] !== token) {
+      continue;
+    }
+    mentioned = true;
+    const window = tokens.slice(Math.max(0, position - FOUNDING_WINDOW_TOKENS), position + 3);
+    if (window.some((candidate) => FOUNDING_TERMS.includes(candidate))) {
+      return { status: "supported" };
+    }
+  }
+  if (mentioned) {
+    return {
+      status: "weak",
+      reason: `Founded year ${year} appears in sources but not next to a founding statement.`,
+    };
+  }
+  return { status: "missing", reason: `Founded year ${year} not found in sources.` };
+};
+
+export const partitionByEvidence = (
+  index: EvidenceIndex,
+  values: string[],
+): { supported: string[]; unsupported: string[] } => {
+  const supported: string[] = [];
+  const unsupported: string[] = [];
+  for (const value of values) {
+    if (hasLiteralEvidence(index, value)) {
+      supported.push(value);
+    } else {
+      unsupported.push(value);
+    }
+  }
+  return { supported, unsupported };
+};
@@ -1,13 +1,61 @@
-import { readFile } from "fs/promises";
-import OpenAI from "openai";
+import { z } from "zod";
 
+import { ProviderIdentity, toAliasKey } from "./aliases";
 import { ALLOWED_SERVICES, AllowedService, isAllowedService } from "./services";
 import {
+  ProviderFieldsSchema,
   ProviderFrontmatter,
   ProviderFrontmatterSchema,
   PROVIDER_SCHEMA_VERSION,
 } from "./schema";
+import { ExtractionChunk, getExtractionTokenBudget, mergeCandidates, planExtractionChunks } from "./chunking";
+import {
+  buildConsensus,
+  FieldDisagreement,
+  formatDisagreement,
+  getEnsembleModels,
+  ModelCandidate,
+} from "./consensus";
 import { CrawledPage } from "./crawl";
+import {
+  createEvidenceIndex,
+  EvidenceIndex,
+  hasLiteralEvidence,
+  partitionByEvidence,
+  verifyFoundedYear,
+} from "./evidence";
+import { toJsonSchema } from "./json-schema";
+import {
+  createLlmBackend,
+  getLlmResponseFormat,
+  LlmBackend,
+  LlmChatRequest,
+  LlmUsage,
+  toResponseFormat,
+} from "./llm";
+import { withLlmCache } from "./llm-cache";
+import {
+  ContactCountry,
+  getLeadContactPreference,
+  inferContactCountry,
+  LeadContactType,
+  selectLeadContact,
+  toE164,
+} from "./contact";
+import { parseImpressum } from "./impressum";
+import { PDF_CONTENT_TYPE } from "./pdf";
+import { BSI_APT_RESPONSE_LIST_PATH, BSI_APT_RESPONSE_URL, loadSeeds } from "./seeds";
+import { buildProvenance, CandidateProvenance, comparableUrl, ProviderProvenance } from "./provenance";
+import {
+  createProviderReport,
+  ProviderReport,
+  ReportFieldChange,
+  ReportIssue,
+  ReportPublishGate,
+  toReportIssues,
+  ValidationOutcome,
+} from "./report";
+import { collectStructuredFacts, StructuredFact, toCompanySizeBand } from "./structured";
 import { dedupe, getOrigin, normalizeSlug, normalizeText } from "./utils";
 
 type PartialProvider = Partial<ProviderFrontmatter> & {
@@ -17,6 +65,7 @@ type PartialProvider = Partial<ProviderFrontmatter> & {
     notes?: string;
   };
   notes?: string;
+  provenance?: CandidateProvenance;
 };
 
 type DescriptionResult = {
@@ -35,20 +84,57 @@ const SERVICE_KEYWORDS: Array<{ service: (typeof ALLOWED_SERVICES)[number]; term
   { service: "Vulnerability Management", terms: ["vulnerability management", "vuln management"] },
 ];
 
-const BSI_APT_RESPONSE_URL =
-  "https://www.bsi.bund.de/SharedDocs/Downloads/DE/BSI/Cyber-Sicherheit/Themen/Dienstleister_APT-Response-Liste.pdf?__blob=publicationFile&v=42";
-const BSI_APT_RESPONSE_LIST_PATH = "seeds/bsi-apt-response.txt";
+export type ExtractOptions = {
+  identity?: ProviderIdentity;
+  resolveProviderId?: (value: string) => string;
+  backend?: LlmBackend;
+  // Parsed from the environment when not given; run.ts parses them once per run.
+  leadContactPreference?: LeadContactType[];
+  tokenBudget?: number;
+};
+
+type NormalizeContext = {
+  identity: ProviderIdentity;
+  resolveProviderId: (value: string) => string;
+  bsiAptResponseSlugs: Set<string>;
+  leadContactPreference: LeadContactType[];
+  disagreements: FieldDisagreement[];
+};
+
+const MAX_REPAIR_ROUNDS = 2;
+
+const CandidateProvenanceSchema = z
+  .record(
+    z
+      .object({
+        url: z.string().url().describe("Page URL from the section header"),
+        quote: z.string().max(200).describe("Verbatim snippet"),
+      })
+      .strict(),
+  )
+  .describe("Keyed by field name");
+
+// The Impressum fields are parsed deterministically and not requested from the model.
+export const LLM_RESPONSE_SCHEMA = toJsonSchema(
+  ProviderFieldsSchema.omit({
+    legal_form: true,
+    register_court: true,
+    register_number: true,
+    vat_id: true,
+    managing_directors: true,
+    postal_address: true,
+    country: true,
+  }).extend({ provenance: CandidateProvenanceSchema.optional() }),
+);
+
 const BSI_APT_QUALIFICATION = "BSI Qualified APT Response";
 let bsiAptResponseSlugsPromise: Promise<Set<string>> | null = null;
 
 const loadBsiAptResponseSlugs = async (): Promise<Set<string>> => {
   if (!bsiAptResponseSlugsPromise) {
-    bsiAptResponseSlugsPromise = readFile(BSI_APT_RESPONSE_LIST_PATH, "utf8")
-      .then((content) =>
-        content
-          .split(/\r?\n/)
-          .map((line) => line.trim())
-          .filter((line) => line.length > 0 && !line.startsWith("#"))
+    bsiAptResponseSlugsPromise = loadSeeds(BSI_APT_RESPONSE_LIST_PATH)
+      .then((entries) =>
+        entries
           .map((entry) => {
             try {
               return normalizeSlug(entry);
@@ -122,28 +208,46 @@ const inferRegions = (text: string): Array<"DACH" | "DE" | "AT" | "CH" | "EU" |
   return dedupe(matches);
 };
 
+// The LLM's lead contact is only kept when it can be traced back to the crawl.
 const normalizeLeadContact = (
   leadContact: PartialProvider["lead_contact"],
-  seedUrl: string,
+  siteOrigin: string,
   contactUrl: string | undefined,
+  verification: { evidence: EvidenceIndex; crawledUrls: string[]; country?: ContactCountry },
   notes: string[],
+  report: ProviderReport,
 ) => {
   if (leadContact?.type && leadContact?.value) {
-    if (leadContact.type === "email" || leadContact.type === "form" || leadContact.type === "phone") {
-      return {
-        type: leadContact.type,
-        value: leadContact.value,
-        notes: leadContact.notes,
-      } as ProviderFrontmatter["lead_contact"];
+    const value = String(leadContact.value).trim();
+    if (leadContact.type === "email" && hasLiteralEvidence(verification.evidence, value)) {
+      return { type: "email", value, notes: leadContact.notes } as ProviderFrontmatter["lead_contact"];
+    }
+    if (leadContact.type === "phone" && hasLiteralEvidence(verification.evidence, value)) {
+      const phone = toE164(value, verification.country ?? inferContactCountry(siteOrigin));
+      if (phone) {
+        return { type: "phone", value: phone, notes: leadContact.notes } as ProviderFrontmatter["lead_contact"];
+      }
+    }
+    if (leadContact.type === "form" && verification.crawledUrls.includes(value)) {
+      return { type: "form", value, notes: leadContact.notes } as ProviderFrontmatter["lead_contact"];
     }
+    const dropped = `Lead contact "${value}" not found in crawled pages; dropped.`;
+    notes.push(dropped);
+    report.dropped.push({ field: "lead_contact", value: leadContact, reason: dropped });
   }
 
-  notes.push("Lead contact not stated; defaulted to contact form.");
-  return {
+  // A guessed /contact URL often 404s; the homepage at least always loads.
+  const fallback = {
     type: "form",
-    value: contactUrl ?? `${getOrigin(seedUrl)}/contact`,
+    value: contactUrl ?? siteOrigin,
     notes: undefined,
   } as ProviderFrontmatter["lead_contact"];
+  const reason = contactUrl
+    ? "Lead contact not stated; defaulted to contact page."
+    : "No contact page found; lead contact defaulted to homepage.";
+  notes.push(reason);
+  report.defaulted.push({ field: "lead_contact", value: fallback, reason });
+  return fallback;
 };
 
 const DESCRIPTION_BLACKLIST = [
@@ -470,8 +574,13 @@ const normalizeProvider = (
   candidate: PartialProvider,
   seedUrl: string,
   pages: CrawledPage[],
-  bsiAptResponseSlugs: Set<string>,
-): { provider: ProviderFrontmatter; lowConfidence: boolean } => {
+  context: NormalizeContext,
+): {
+  provider: ProviderFrontmatter;
+  lowConfidence: boolean;
+  structuredProvenance: ProviderProvenance;
+  report: ProviderReport;
+} => {
   const officialText = pages
     .filter((page) => page.discoveryReason !== "external-proof")
     .map((page) => page.text)
@@ -480,24 +589,67 @@ const normalizeProvider = (
   const notes: string[] = [];
   let lowConfidence = false;
   const publishReasons: string[] = [];
+  // The notes cell is truncated; the report keeps every decision with its field.
+  const report = createProviderReport();
+  const noteDefaulted = (field: keyof ProviderFrontmatter, value: unknown, reason: string) => {
+    notes.push(reason);
+    report.defaulted.push({ field, value, reason });
+  };
+  const noteDropped = (field: keyof ProviderFrontmatter, value: unknown, reason: string) => {
+    notes.push(reason);
+    report.dropped.push({ field, value, reason });
+  };
+  const failPublishGate = (gate: ReportPublishGate) => {
+    publishReasons.push(gate.reason);
+    report.failedPublishGates.push(gate);
+  };
 
-  const slug = normalizeSlug(seedUrl);
+  const { identity, resolveProviderId } = context;
+  const structured = collectStructuredFacts(
+    pages.filter((page) => page.discoveryReason !== "external-proof"),
+  );
+  // Fields taken from JSON-LD cite the markup instead of an LLM-chosen quote.
+  const structuredProvenance: ProviderProvenance = {};
+  const citeStructured = <T>(field: keyof ProviderFrontmatter, fact: StructuredFact<T>) => {
+    structuredProvenance[field] = {
+      url: fact.url,
+      pageKey: fact.pageKey,
+      quote: `schema.org ${fact.property}: ${JSON.stringify(fact.value)}`,
+    };
+  };
+  // Legal disclosures are parsed deterministically from the Impressum page.
+  const impressumPage = pages.find((page) => page.key === "impressum");
+  const impressum = impressumPage ? parseImpressum(impressumPage.text) : undefined;
+  const citeImpressum = (field: keyof ProviderFrontmatter, value: string | undefined) => {
+    if (impressumPage && value) {
+      structuredProvenance[field] = {
+        url: impressumPage.url,
+        pageKey: impressumPage.key,
+        quote: `Impressum: ${value}`.slice(0, 200),
+      };
+    }
+  };
+  const slug = identity.providerId;
   const name = candidate.name ?? slug.replace(/-/g, " ");
   const website = (() => {
     if (candidate.website) {
       try {
-        return new URL(candidate.website).toString();
+        const url = new URL(candidate.website).toString();
+        if (resolveProviderId(url) === slug) {
+          return url;
+        }
+        noteDefaulted(
+          "website",
+          identity.canonicalOrigin,
+          "Website points at another domain; defaulted to the crawled origin.",
+        );
       } catch {
-        notes.push("Website URL invalid; defaulted to seed origin.");
+        noteDefaulted("website", identity.canonicalOrigin, "Website URL invalid; defaulted to the crawled origin.");
         lowConfidence = true;
       }
     }
-    return getOrigin(seedUrl);
+    return identity.canonicalOrigin;
   })();
-  const candidateSlug =
-    candidate.slug && /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(candidate.slug)
-      ? candidate.slug
-      : slug;
 
   const regions = dedupe(
     (candidate.regions ?? []).filter((region) =>
@@ -511,9 +663,17 @@ const normalizeProvider = (
       regions.push(...inferred);
     }
   }
+  // The registered seat places the company in its home country at least.
+  const country = impressum?.country;
+  if (country && !regions.some((region) => region === country || region === "DACH" || region === "GLOBAL")) {
+    if (regions.length === 0) {
+      citeImpressum("regions", impressum?.postalAddress ?? country);
+    }
+    regions.push(country);
+  }
   if (regions.length === 0) {
     regions.push("GLOBAL");
-    notes.push("Regions not stated; defaulted to GLOBAL.");
+    noteDefaulted("regions", regions, "Regions not stated; defaulted to GLOBAL.");
     lowConfidence = true;
     regionsDefaulted = true;
   }
@@ -522,7 +682,7 @@ const normalizeProvider = (
     (candidate.services ?? []).filter((service) => isAllowedService(service)),
   );
   if (isFullServiceList(candidateServices)) {
-    notes.push("Services list looked defaulted (all services); inferred from text.");
+    noteDropped("services", candidateServices, "Services list looked defaulted (all services); inferred from text.");
   }
   const services = isFullServiceList(candidateServices) ? [] : candidateServices;
   let servicesDefaulted = false;
@@ -531,7 +691,7 @@ const normalizeProvider = (
   }
   if (services.length === 0) {
     services.push("Vulnerability Management");
-    notes.push("Services not clearly stated; defaulted to Vulnerability Management.");
+    noteDefaulted("services", services, "Services not clearly stated; defaulted to Vulnerability Management.");
     lowConfidence = true;
     servicesDefaulted = true;
   }
@@ -541,18 +701,32 @@ const normalizeProvider = (
   );
   if (primaryServices.length === 0) {
     primaryServices.push(services[0]);
+    report.defaulted.push({
+      field: "primary_services",
+      value: primaryServices,
+      reason: "Primary services not stated; defaulted to the first service.",
+    });
   }
 
-  const languages = dedupe(
-    (candidate.languages ?? []).filter((lang) => lang === "de" || lang === "en"),
+  // Languages come from the site versions that were actually crawled; the LLM and
+  // keyword inference only fill in when no page carried a language tag.
+  const variantLanguages = dedupe(
+    pages
+      .filter((page) => page.discoveryReason !== "external-proof")
+      .map((page) => page.language)
+      .filter((lang): lang is "de" | "en" => lang === "de" || lang === "en"),
   );
+  const languages =
+    variantLanguages.length > 0
+      ? variantLanguages
+      : dedupe((candidate.languages ?? []).filter((lang) => lang === "de" || lang === "en"));
   let languagesDefaulted = false;
   if (languages.length === 0) {
     languages.push(...inferLanguages(text));
   }
   if (languages.length === 0) {
     languages.push("en");
-    notes.push("Languages not stated; defaulted to en.");
+    noteDefaulted("languages", languages, "Languages not stated; defaulted to en.");
     lowConfidence = true;
     languagesDefaulted = true;
   }
@@ -565,19 +739,26 @@ const normalizeProvider = (
   let deliveryModesDefaulted = false;
   if (deliveryModes.length === 0) {
     deliveryModes.push("remote");
-    notes.push("Delivery modes not stated; defaulted to remote.");
+    noteDefaulted("delivery_modes", deliveryModes, "Delivery modes not stated; defaulted to remote.");
     lowConfidence = true;
     deliveryModesDefaulted = true;
   }
 
+  const structuredCompanySize = structured.employees
+    ? toCompanySizeBand(structured.employees.value)
+    : undefined;
+  if (structured.employees && structuredCompanySize) {
+    citeStructured("company_size_band", structured.employees);
+  }
   const companySize =
-    candidate.company_size_band &&
+    structuredCompanySize ??
+    (candidate.company_size_band &&
     ["solo", "2-10", "11-50", "51-200", "200+"].includes(candidate.company_size_band)
       ? candidate.company_size_band
-      : "2-10";
-  const companySizeDefaulted = !candidate.company_size_band;
-  if (!candidate.company_size_band) {
-    notes.push("Company size not stated; defaulted to 2-10.");
+      : "2-10");
+  const companySizeDefaulted = !structuredCompanySize && !candidate.company_size_band;
+  if (companySizeDefaulted) {
+    noteDefaulted("company_size_band", companySize, "Company size not stated; defaulted to 2-10.");
     lowConfidence = true;
   }
 
@@ -587,20 +768,73 @@ const normalizeProvider = (
       ? candidate.response_time_band
       : "unknown";
   const responseTimeDefaulted = !candidate.response_time_band;
+  if (responseTimeDefaulted) {
+    report.defaulted.push({
+      field: "response_time_band",
+      value: responseTime,
+      reason: "Response time not stated; defaulted to unknown.",
+    });
+  }
 
-  const legalName = normalizeLegalName(candidate.legal_name);
+  // Factual fields must be backed by the crawled text (official or external) before they are accepted.
+  const evidence = createEvidenceIndex(pages.map((page) => page.text).join(" "));
+
+  let legalName = normalizeLegalName(structured.legalName?.value);
+  if (legalName && structured.legalName) {
+    citeStructured("legal_name", structured.legalName);
+  } else if (normalizeLegalName(impressum?.legalName)) {
+    legalName = normalizeLegalName(impressum?.legalName);
+    citeImpressum("legal_name", legalName);
+  } else {
+    legalName = normalizeLegalName(candidate.legal_name);
+    if (legalName && !hasLiteralEvidence(evidence, legalName)) {
+      noteDropped("legal_name", legalName, `Legal name "${legalName}" not found in sources; dropped.`);
+      lowConfidence = true;
+      legalName = undefined;
+    }
+  }
 
-  const foundedYearResult = normalizeFoundedYear(candidate.founded_year);
+  const structuredFoundedYear = normalizeFoundedYear(structured.foundedYear?.value).year;
+  if (structured.foundedYear && structuredFoundedYear) {
+    citeStructured("founded_year", structured.foundedYear);
+  }
+  const foundedYearResult = structuredFoundedYear
+    ? { year: structuredFoundedYear }
+    : normalizeFoundedYear(candidate.founded_year);
   if (foundedYearResult.blockedReason) {
-    notes.push(foundedYearResult.blockedReason);
+    noteDropped("founded_year", candidate.founded_year, foundedYearResult.blockedReason);
     lowConfidence = true;
   }
-  const foundedYear = foundedYearResult.year;
+  let foundedYear = foundedYearResult.year;
+  if (foundedYear && !structuredFoundedYear) {
+    const yearEvidence = verifyFoundedYear(evidence, foundedYear);
+    if (yearEvidence.status === "missing") {
+      noteDropped("founded_year", foundedYear, `${yearEvidence.reason} Dropped.`);
+      lowConfidence = true;
+      foundedYear = undefined;
+    } else if (yearEvidence.status === "weak") {
+      notes.push(`${yearEvidence.reason} Kept with low confidence.`);
+      lowConfidence = true;
+    }
+  }
 
-  const notableReferences = normalizeStringList(candidate.notable_references, 3);
+  const referenceEvidence = partitionByEvidence(
+    evidence,
+    normalizeStringList(candidate.notable_references, 3),
+  );
+  if (referenceEvidence.unsupported.length > 0) {
+    noteDropped(
+      "notable_references",
+      referenceEvidence.unsupported,
+      `Dropped notable references not found in sources: ${referenceEvidence.unsupported.join(", ")}.`,
+    );
+    lowConfidence = true;
+  }
+  const notableReferences = referenceEvidence.supported;
   const proofSourceUrls = normalizeUrlList(candidate.proof_source_urls, 3);
   const qualifications = normalizeStringList(candidate.qualifications, 5);
-  if (bsiAptResponseSlugs.has(candidateSlug)) {
+  const bsiProviderIds = new Set(Array.from(context.bsiAptResponseSlugs, resolveProviderId));
+  if (bsiProviderIds.has(slug)) {
     if (!qualifications.includes(BSI_APT_QUALIFICATION)) {
       qualifications.push(BSI_APT_QUALIFICATION);
     }
@@ -621,14 +855,82 @@ const normalizeProvider = (
   if (differentiatorFinal.blockedReason) {
     notes.push(differentiatorFinal.blockedReason);
   }
+  if (candidate.differentiator && differentiatorResult.blockedReason) {
+    report.blocked.push({
+      field: "differentiator",
+      value: candidate.differentiator,
+      reason: differentiatorResult.blockedReason,
+      replacement: differentiator || undefined,
+    });
+  }
+  // The fallback taken from the page text can be blocked as well.
+  if (
+    differentiatorCandidate &&
+    differentiatorCandidate !== candidate.differentiator &&
+    differentiatorFinal.blockedReason
+  ) {
+    report.blocked.push({
+      field: "differentiator",
+      value: differentiatorCandidate,
+      reason: differentiatorFinal.blockedReason,
+    });
+  }
 
   const industries = candidate.industries?.filter(Boolean) ?? [];
-  const certifications = candidate.certifications?.filter(Boolean) ?? [];
+  const certificationEvidence = partitionByEvidence(
+    evidence,
+    candidate.certifications?.filter(Boolean) ?? [],
+  );
+  if (certificationEvidence.unsupported.length > 0) {
+    noteDropped(
+      "certifications",
+      certificationEvidence.unsupported,
+      `Dropped certifications not found in sources: ${certificationEvidence.unsupported.join(", ")}.`,
+    );
+    lowConfidence = true;
+  }
+  const certifications = certificationEvidence.supported;
   const caseStudies = candidate.case_studies?.filter(Boolean) ?? [];
   const engagementModels = candidate.engagement_models?.filter(Boolean) ?? [];
 
-  const contactPage = pages.find((page) => page.key === "contact")?.url;
-  const leadContact = normalizeLeadContact(candidate.lead_contact, seedUrl, contactPage, notes);
+  // Crawled mailto/tel links and contact forms beat JSON-LD, which beats the LLM.
+  const preference = context.leadContactPreference;
+  const verifiedContact = selectLeadContact(
+    pages.filter((page) => page.discoveryReason !== "external-proof"),
+    { preference, siteOrigin: identity.canonicalOrigin, country },
+  );
+  const structuredContact = preference
+    .map((type) => (type === "email" ? structured.email : type === "phone" ? structured.telephone : undefined))
+    .find(Boolean);
+  const structuredPhone =
+    structuredContact && structuredContact === structured.telephone
+      ? toE164(structuredContact.value, country ?? inferContactCountry(identity.canonicalOrigin))
+      : undefined;
+  const contactPage = pages.find((page) => page.key === "contact");
+  let leadContact: ProviderFrontmatter["lead_contact"];
+  if (verifiedContact) {
+    leadContact = verifiedContact.contact;
+    structuredProvenance.lead_contact = {
+      url: verifiedContact.page.url,
+      pageKey: verifiedContact.page.key,
+      quote: verifiedContact.quote,
+    };
+  } else if (structuredContact && (structuredContact === structured.email || structuredPhone)) {
+    leadContact =
+      structuredContact === structured.email
+        ? { type: "email", value: structuredContact.value }
+        : { type: "phone", value: structuredPhone ?? structuredContact.value };
+    citeStructured("lead_contact", structuredContact);
+  } else {
+    leadContact = normalizeLeadContact(
+      candidate.lead_contact,
+      identity.canonicalOrigin,
+      contactPage ? contactPage.finalUrl ?? contactPage.url : structured.contactUrl?.value,
+      { evidence, crawledUrls: pages.map((page) => page.finalUrl ?? page.url), country },
+      notes,
+      report,
+    );
+  }
 
   const emergency24x7 =
     candidate.emergency_24_7 ?? (inferEmergencyAvailability(text) ? true : undefined);
@@ -642,15 +944,25 @@ const normalizeProvider = (
     const neutral = buildNeutralDescription({ name, services, regions });
     if (neutral) {
       description = neutral;
-      if (descriptionResult.blockedReason) {
-        notes.push(`Short description replaced with neutral summary. ${descriptionResult.blockedReason}`);
-      } else {
-        notes.push("Short description replaced with neutral summary.");
-      }
+      noteDefaulted(
+        "short_description",
+        neutral,
+        descriptionResult.blockedReason
+          ? `Short description replaced with neutral summary. ${descriptionResult.blockedReason}`
+          : "Short description replaced with neutral summary.",
+      );
     }
   }
+  if (candidate.short_description && descriptionResult.blockedReason) {
+    report.blocked.push({
+      field: "short_description",
+      value: candidate.short_description,
+      reason: descriptionResult.blockedReason,
+      replacement: description || undefined,
+    });
+  }
   if (!description && descriptionResult.blockedReason) {
-    publishReasons.push(descriptionResult.blockedReason);
+    failPublishGate({ gate: "short_description", reason: descriptionResult.blockedReason });
   }
 
   const factsCount = countNonDefaultFacts({
@@ -673,7 +985,12 @@ const normalizeProvider = (
   });
 
   if (factsCount < 2) {
-    publishReasons.push("Insufficient non-default facts for publication.");
+    failPublishGate({
+      gate: "non_default_facts",
+      reason: "Insufficient non-default facts for publication.",
+      actual: factsCount,
+      required: 2,
+    });
   }
 
   const relevanceSignals = countRelevanceSignals({
@@ -684,7 +1001,12 @@ const normalizeProvider = (
   });
 
   if (relevanceSignals < 2) {
-    publishReasons.push("Insufficient security relevance signals.");
+    failPublishGate({
+      gate: "relevance_signals",
+      reason: "Insufficient security relevance signals.",
+      actual: relevanceSignals,
+      required: 2,
+    });
   }
 
   const publishStatus = publishReasons.length === 0 ? "published" : "hidden";
@@ -692,10 +1014,21 @@ const normalizeProvider = (
     notes.push(`Publish status hidden: ${publishReasons.join(" ")}`);
   }
 
+  // Fields the ensemble models disagreed on need a human look; one evidence step down.
+  let evidenceLevel: ProviderFrontmatter["evidence_level"] = lowConfidence
+    ? "basic"
+    : candidate.evidence_level ?? "basic";
+  if (context.disagreements.length > 0) {
+    evidenceLevel = evidenceLevel === "verified" ? "basic" : "none";
+    notes.push(
+      `Models disagreed on ${context.disagreements.map((entry) => entry.field).join(", ")}; review needed.`,
+    );
+  }
+
   const provider: ProviderFrontmatter = {
     schema_version: PROVIDER_SCHEMA_VERSION,
     name,
-    slug: candidateSlug,
+    slug,
     website,
     regions,
     services,
@@ -721,82 +1054,75 @@ const normalizeProvider = (
     emergency_24_7: emergency24x7 ?? false,
     is_fictional: candidate.is_fictional ?? false,
     data_origin: "researched",
-    evidence_level: lowConfidence ? "basic" : candidate.evidence_level ?? "basic",
+    evidence_level: evidenceLevel,
     publish_status: publishStatus,
     notes: normalizeText([candidate.notes, ...notes].filter(Boolean).join(" | ")).slice(0, 240) ||
       undefined,
+    legal_form: impressum?.legalForm,
+    register_court: impressum?.registerCourt,
+    register_number: impressum?.registerNumber,
+    vat_id: impressum?.vatId,
+    managing_directors:
+      impressum && impressum.managingDirectors.length > 0 ? impressum.managingDirectors : undefined,
+    postal_address: impressum?.postalAddress,
+    country,
   };
-
-  return { provider, lowConfidence };
+  citeImpressum("legal_form", provider.legal_form);
+  citeImpressum("register_court", provider.register_court);
+  citeImpressum("register_number", provider.register_number);
+  citeImpressum("vat_id", provider.vat_id);
+  citeImpressum("managing_directors", provider.managing_directors?.join(", "));
+  citeImpressum("postal_address", provider.postal_address);
+  citeImpressum("country", provider.country);
+  report.notes = [candidate.notes, ...notes].filter((note): note is string => Boolean(note));
+
+  return { provider, lowConfidence, structuredProvenance, report };
 };
 
-export const extractProvider = async (seedUrl: string, pages: CrawledPage[]) => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is missing");
-  }
-
+export const extractProvider = async (
+  seedUrl: string,
+  pages: CrawledPage[],
+  options: ExtractOptions = {},
+) => {
   const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-  const client = new OpenAI({
-    apiKey,
-    baseURL: process.env.OPENAI_BASE_URL || undefined,
-  });
+  const baseUrl = process.env.OPENAI_BASE_URL || "";
+  const backend = options.backend ?? createLlmBackend();
 
   const seedSlug = normalizeSlug(seedUrl);
-  const bsiAptResponseSlugs = await loadBsiAptResponseSlugs();
-  const officialPages = pages.filter((page) => page.discoveryReason !== "external-proof");
-  const externalPages = pages.filter((page) => page.discoveryReason === "external-proof");
-  const officialText = officialPages
-    .map((page) => `# ${page.key}\n${page.text}`)
-    .join("\n\n");
-  const externalText = externalPages
-    .map((page) => `# ${page.key}\n${page.text}`)
-    .join("\n\n");
-  const sourceText = [
-    "## Official pages (use for descriptions/differentiators)",
-    officialText,
-    "## External sources (use only for proof/facts)",
-    externalText,
-  ]
-    .filter((section) => section.trim().length > 0)
-    .join("\n\n");
-
-  const prompt = `You are a strict data extraction tool. Use ONLY the provided text.\n\nReturn JSON only with these fields:\n- schema_version (number)\n- name (string)\n- legal_name? (string, official legal entity name)\n- slug (kebab-case)\n- website (url)\n- regions (array of: DACH, DE, AT, CH, EU, GLOBAL)\n- services (array of: ${ALLOWED_SERVICES.join(", ")})\n- primary_services (subset of services, 1-3 items)\n- short_description (30-200 chars, or empty if no specific facts)\n- languages (array of: de, en)\n- delivery_modes (array of: remote, on_site, hybrid)\n- company_size_band (solo, 2-10, 11-50, 51-200, 200+)\n- response_time_band (<4h, <1d, 2-3d, 1w+, unknown)\n- lead_contact (object: {type: email|form|phone, value: string, notes?: string})\n- founded_year? (number, 4-digit year)\n- differentiator? (string, concrete and specific)\n- notable_references? (array of strings, 1-3 items)\n- proof_source_urls? (array of urls, 1-3 items)\n- industries? (array of strings)\n- certifications? (array of strings)\n- case_studies? (array of urls)\n- engagement_models? (array of: fixed_scope, retainer, project, emergency)\n- minimum_project_size_band? (<5k, 5-20k, 20-50k, 50k+)\n- availability? (yes, limited, no)\n- emergency_24_7? (boolean)\n- is_fictional? (boolean)\n- data_origin? (seed, provider_submitted, researched)\n- evidence_level? (none, basic, verified)\n- notes? (string, max 240 chars)\n\nRules:\n- Never invent certifications, services, response times, company size, or founded year.\n- Do not use vague filler phrases in short_description or differentiator; leave them empty if specifics are missing.\n- Use external sources ONLY for proof/facts (founded_year, proof_source_urls, notable_references).\n- Use official pages for short_description, differentiator, and legal_name.\n- Only include notable_references and proof_source_urls when explicitly stated.\n- Prefer empty/unknown over guessing for optional fields.\n- If a required field is missing, set a conservative value and mention uncertainty in notes.\n- Return JSON only.\n\nSeed slug: ${seedSlug}\n\nText:\n${sourceText}`;
-
+  const context: NormalizeContext = {
+    identity: options.identity ?? { providerId: seedSlug, canonicalOrigin: getOrigin(seedUrl) },
+    resolveProviderId: options.resolveProviderId ?? toAliasKey,
+    bsiAptResponseSlugs: await loadBsiAptResponseSlugs(),
+    leadContactPreference: options.leadContactPreference ?? getLeadContactPreference(),
+    disagreements: [],
+  };
+  const formatPage = (page: CrawledPage) => {
+    const marker = page.contentType === PDF_CONTENT_TYPE ? " [PDF]" : "";
+    const meta = page.structured?.meta;
+    const description = meta?.description ?? meta?.ogDescription;
+    const header = `# ${page.key}${marker} (${page.url})`;
+    return description
+      ? `${header}\nMeta description: ${description}\n${page.text}`
+      : `${header}\n${page.text}`;
+  };
+  const tokenBudget = options.tokenBudget ?? getExtractionTokenBudget();
+  const plan = planExtractionChunks(pages, formatPage, tokenBudget);
+  const toSourceText = (chunk: ExtractionChunk) =>
+    [
+      "## Official pages (use for descriptions/differentiators)",
+      chunk.officialSections.join("\n\n"),
+      "## External sources (use only for proof/facts)",
+      chunk.externalSections.join("\n\n"),
+    ]
+      .filter((section) => section.trim().length > 0)
+      .join("\n\n");
+  const responseFormat = getLlmResponseFormat();
   const promptLines = [
     "You are a strict data extraction tool. Use ONLY the provided text.",
     "",
-    "Return JSON only with these fields:",
-    "- schema_version (number)",
-    "- name (string)",
-    "- legal_name? (string, official legal entity name)",
-    "- slug (kebab-case)",
-    "- website (url)",
-    "- regions (array of: DACH, DE, AT, CH, EU, GLOBAL)",
-    `- services (array of: ${ALLOWED_SERVICES.join(", ")})`,
-    "- primary_services (subset of services, 1-3 items)",
-    "- short_description (30-200 chars, neutral and customer-centered, no marketing language, no second-person phrasing)",
-    "- languages (array of: de, en)",
-    "- delivery_modes (array of: remote, on_site, hybrid)",
-    "- company_size_band (solo, 2-10, 11-50, 51-200, 200+)",
-    "- response_time_band (<4h, <1d, 2-3d, 1w+, unknown)",
-    "- lead_contact (object: {type: email|form|phone, value: string, notes?: string})",
-    "- founded_year? (number, 4-digit year)",
-    "- differentiator? (string, concrete and specific)",
-    "- notable_references? (array of strings, 1-3 items)",
-    "- proof_source_urls? (array of urls, 1-3 items)",
-    "- industries? (array of strings)",
-    "- certifications? (array of strings)",
-    "- case_studies? (array of urls)",
-    "- engagement_models? (array of: fixed_scope, retainer, project, emergency)",
-    "- minimum_project_size_band? (<5k, 5-20k, 20-50k, 50k+)",
-    "- availability? (yes, limited, no)",
-    "- emergency_24_7? (boolean)",
-    "- is_fictional? (boolean)",
-    "- data_origin? (seed, provider_submitted, researched)",
-    "- evidence_level? (none, basic, verified)",
-    "- qualifications? (array of strings)",
-    "- notes? (string, max 240 chars)",
+    responseFormat === "json_schema"
+      ? "Return one JSON object that matches the given JSON schema. Omit optional fields you cannot support from the text."
+      : `Return one JSON object that matches this JSON schema. Omit optional fields you cannot support from the text.\n${JSON.stringify(LLM_RESPONSE_SCHEMA)}`,
     "",
     "Rules:",
     "- Never invent certifications, services, response times, company size, or founded year.",
@@ -804,36 +1130,244 @@ export const extractProvider = async (seedUrl: string, pages: CrawledPage[]) =>
     "- Use external sources ONLY for proof/facts (founded_year, proof_source_urls, notable_references).",
     "- Use official pages for short_description, differentiator, and legal_name.",
     "- Only include notable_references and proof_source_urls when explicitly stated.",
+    "- Sections marked [PDF] are documents published by the provider (certificates, data sheets); cite their URL in proof_source_urls and provenance when a fact comes from them.",
     "- Prefer empty/unknown over guessing for optional fields.",
     "- If a required field is missing, set a conservative default and add uncertainty to notes.",
+    "- For every populated field except schema_version, slug and notes, add a provenance entry citing the page it came from.",
   ];
-  const promptOverride = `${promptLines.join("\n")}\n\n${sourceText}`;
-
-  const response = await client.chat.completions.create({
-    model,
-    temperature: 0,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: "You extract structured data from website text." },
-      { role: "user", content: promptOverride },
-    ],
-  });
+  // Latency only counts calls that reached the backend; cache hits are replayed from disk.
+  const llmUsage: LlmUsage = { requests: 0, cachedResponses: 0, latencyMs: 0 };
+  const complete = async (request: LlmChatRequest): Promise<string> => {
+    const call = async () => {
+      const started = Date.now();
+      try {
+        return await backend.complete(request);
+      } finally {
+        llmUsage.latencyMs += Date.now() - started;
+      }
+    };
+    const { content, cached } = backend.cacheable
+      ? await withLlmCache(
+          { model: request.model, baseUrl, schemaVersion: PROVIDER_SCHEMA_VERSION, request },
+          call,
+        )
+      : { content: await call(), cached: false };
+    llmUsage.requests += 1;
+    if (cached) {
+      llmUsage.cachedResponses += 1;
+    }
+    return content;
+  };
+
+  const requestCandidate = async (
+    requestModel: string,
+    chunk: ExtractionChunk,
+    index: number,
+  ): Promise<PartialProvider> => {
+    // Large sites are extracted part by part and merged; each part must stand on its own.
+    const partLines =
+      plan.chunks.length > 1
+        ? [
+            `- This is part ${index + 1} of ${plan.chunks.length} of the crawled pages. Extract only what this part supports; the other parts are processed separately.`,
+          ]
+        : [];
+    const request: LlmChatRequest = {
+      model: requestModel,
+      temperature: 0,
+      response_format: toResponseFormat(responseFormat, LLM_RESPONSE_SCHEMA),
+      messages: [
+        { role: "system", content: "You extract structured data from website text." },
+        {
+          role: "user",
+          content: `${[...promptLines, ...partLines].join("\n")}\n\n${toSourceText(chunk)}`,
+        },
+      ],
+    };
+
+    return parseJson(await complete(request));
+  };
 
-  const content = response.choices[0]?.message?.content ?? "{}";
-  const candidate = parseJson(content);
-  const normalized = normalizeProvider(candidate, seedUrl, pages, bsiAptResponseSlugs);
-  const parsed = ProviderFrontmatterSchema.safeParse(normalized.provider);
+  const extractWithModel = async (requestModel: string): Promise<PartialProvider> => {
+    const chunkCandidates: PartialProvider[] = [];
+    for (const [index, chunk] of plan.chunks.entries()) {
+      chunkCandidates.push(await requestCandidate(requestModel, chunk, index));
+    }
+    return chunkCandidates.length === 1 ? chunkCandidates[0] : mergeCandidates(chunkCandidates);
+  };
 
+  // In ensemble mode OPENAI_MODEL is the primary model; the others only vote.
+  const ensembleModels = dedupe([model, ...getEnsembleModels()]);
+  const modelCandidates: Array<ModelCandidate<PartialProvider>> = [];
+  for (const ensembleModel of ensembleModels) {
+    modelCandidates.push({ label: ensembleModel, candidate: await extractWithModel(ensembleModel) });
+  }
+  const { candidate, disagreements } =
+    modelCandidates.length > 1
+      ? buildConsensus(modelCandidates)
+      : { candidate: modelCandidates[0].candidate, disagreements: [] };
+  context.disagreements = disagreements;
+  if (plan.droppedPages.length > 0) {
+    candidate.notes = [
+      candidate.notes,
+      `Token budget reached; ${plan.droppedPages.length} low-ranked page(s) not sent to the LLM.`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+  // A repair sees the chunks the failing fields cite, or every chunk when none are
+  // cited, as far as they fit into one request's token budget.
+  const selectRepairSource = (current: PartialProvider, issues: z.ZodIssue[]): string => {
+    const failing = new Set(issues.map((issue) => String(issue.path[0])));
+    const citedKeys = new Set(
+      Object.entries(current.provenance ?? {}).flatMap(([field, entry]) => {
+        const url = typeof entry?.url === "string" ? comparableUrl(entry.url) : null;
+        if (!failing.has(field) || !url) {
+          return [];
+        }
+        return pages.filter((page) => comparableUrl(page.url) === url).map((page) => page.key);
+      }),
+    );
+    const cited = plan.chunks.filter((chunk) => chunk.pageKeys.some((key) => citedKeys.has(key)));
+    const selected: ExtractionChunk[] = [];
+    let tokens = 0;
+    for (const chunk of cited.length > 0 ? cited : plan.chunks) {
+      if (selected.length > 0 && tokens + chunk.tokens > tokenBudget) {
+        break;
+      }
+      selected.push(chunk);
+      tokens += chunk.tokens;
+    }
+    return selected.length > 0
+      ? toSourceText({
+          pageKeys: selected.flatMap((chunk) => chunk.pageKeys),
+          officialSections: selected.flatMap((chunk) => chunk.officialSections),
+          externalSections: selected.flatMap((chunk) => chunk.externalSections),
+          tokens,
+        })
+      : "";
+  };
+
+  // Invalid output gets a bounded round-trip with the zod issues before anything is dropped.
+  const requestRepair = async (
+    requestModel: string,
+    current: PartialProvider,
+    issues: z.ZodIssue[],
+  ): Promise<PartialProvider> => {
+    const issueLines = issues.map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    const request: LlmChatRequest = {
+      model: requestModel,
+      temperature: 0,
+      response_format: toResponseFormat(responseFormat, LLM_RESPONSE_SCHEMA),
+      messages: [
+        { role: "system", content: "You extract structured data from website text." },
+        {
+          role: "user",
+          content: `${promptLines.join("\n")}\n\n${selectRepairSource(current, issues)}`,
+        },
+        { role: "assistant", content: JSON.stringify(current) },
+        {
+          role: "user",
+          content: [
+            "After normalization this JSON failed validation:",
+            ...issueLines,
+            "Return the full corrected JSON object. Change only the listed fields; drop an optional field if the text supports no valid value.",
+          ].join("\n"),
+        },
+      ],
+    };
+    return parseJson(await complete(request));
+  };
+
+  // In ensemble mode every model repairs and the repaired candidates vote again.
+  const repairCandidate = async (
+    current: PartialProvider,
+    issues: z.ZodIssue[],
+  ): Promise<PartialProvider> => {
+    const repairs: Array<ModelCandidate<PartialProvider>> = [];
+    for (const ensembleModel of ensembleModels) {
+      repairs.push({ label: ensembleModel, candidate: await requestRepair(ensembleModel, current, issues) });
+    }
+    if (repairs.length === 1) {
+      return repairs[0].candidate;
+    }
+    const consensus = buildConsensus(repairs);
+    const known = new Set(context.disagreements.map((disagreement) => disagreement.field));
+    context.disagreements.push(...consensus.disagreements.filter(({ field }) => !known.has(field)));
+    return consensus.candidate;
+  };
+
+  // Issues of every attempt end up in the report, including the ones a repair fixed.
+  const validationIssues: ReportIssue[] = [];
+  let current = candidate;
+  let normalized = normalizeProvider(current, seedUrl, pages, context);
+  let parsed = ProviderFrontmatterSchema.safeParse(normalized.provider);
   if (!parsed.success) {
-    const fallback = normalizeProvider({}, seedUrl, pages, bsiAptResponseSlugs);
+    validationIssues.push(...toReportIssues("initial", parsed.error.issues));
+  }
+  for (let round = 1; !parsed.success && round <= MAX_REPAIR_ROUNDS; round += 1) {
+    const repaired = await repairCandidate(current, parsed.error.issues);
+    current = {
+      ...repaired,
+      notes: [repaired.notes, `Re-requested after failed validation (round ${round}).`].filter(Boolean).join(" "),
+    };
+    normalized = normalizeProvider(current, seedUrl, pages, context);
+    parsed = ProviderFrontmatterSchema.safeParse(normalized.provider);
+    if (!parsed.success) {
+      validationIssues.push(...toReportIssues(`repair ${round}`, parsed.error.issues));
+    }
+  }
+  let droppedFields: ReportFieldChange[] = [];
+  if (!parsed.success) {
+    // Keep everything that validated; only the fields still named in issues are dropped.
+    const failing = new Set(parsed.error.issues.map((issue) => String(issue.path[0])));
+    droppedFields = Array.from(failing, (field) => ({
+      field,
+      value: current[field as keyof PartialProvider],
+      reason: "Still invalid after repair.",
+    }));
+    current = {
+      ...Object.fromEntries(Object.entries(current).filter(([field]) => !failing.has(field))),
+      notes: [current.notes, `Dropped invalid field(s): ${Array.from(failing).join(", ")}.`]
+        .filter(Boolean)
+        .join(" "),
+    } as PartialProvider;
+    normalized = normalizeProvider(current, seedUrl, pages, context);
+    parsed = ProviderFrontmatterSchema.safeParse(normalized.provider);
+    if (!parsed.success) {
+      validationIssues.push(...toReportIssues("after dropping fields", parsed.error.issues));
+    }
+  }
+  const withAttempts = (report: ProviderReport, validation: ValidationOutcome): ProviderReport => ({
+    ...report,
+    validation,
+    validationIssues,
+    dropped: [...droppedFields, ...report.dropped],
+  });
+
+  if (!parsed.success) {
+    const fallback = normalizeProvider({}, seedUrl, pages, context);
     return {
       provider: fallback.provider,
       lowConfidence: true,
+      provenance: fallback.structuredProvenance,
+      review: context.disagreements.map(formatDisagreement),
+      report: withAttempts(fallback.report, "fallback"),
+      llm: llmUsage,
     };
   }
 
   return {
     provider: parsed.data,
     lowConfidence: normalized.lowConfidence,
+    provenance: {
+      ...buildProvenance(current.provenance, parsed.data, pages),
+      ...normalized.structuredProvenance,
+    },
+    review: context.disagreements.map(formatDisagreement),
+    report: withAttempts(
+      normalized.report,
+      droppedFields.length > 0 ? "fields_dropped" : validationIssues.length > 0 ? "repaired" : "valid",
+    ),
+    llm: llmUsage,
   };
 };
@@ -0,0 +1,118 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+import { diffSeeds, parseBsiProviderList, resolveSeeds, SeedDiff } from "./bsi-list";
+import { extractPdfText } from "./pdf";
+import {
+  BSI_APT_RESPONSE_LIST_PATH,
+  BSI_APT_RESPONSE_URL,
+  loadSeeds,
+  PROVIDER_SEEDS_PATH,
+  writeSeedFile,
+} from "./seeds";
+
+type CliOptions = {
+  pdfPath: string;
+  dryRun: boolean;
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+  let pdfPath: string | undefined;
+  let dryRun = false;
+  for (const arg of argv) {
+    if (arg === "--dry-run") {
+      dryRun = true;
+    } else if (!arg.startsWith("--") && !pdfPath) {
+      pdfPath = arg;
+    }
+  }
+  if (!pdfPath) {
+    throw new Error("Usage: yarn import-bsi <path-to-bsi-apt-response.pdf> [--dry-run]");
+  }
+  return { pdfPath, dryRun };
+};
+
+const loadSeedsIfPresent = async (filePath: string): Promise<string[]> => {
+  try {
+    return await loadSeeds(filePath);
+  } catch {
+    return [];
+  }
+};
+
+const printDiff = (label: string, diff: SeedDiff, namesByUrl: Map<string, string>) => {
+  console.log(`${label}: +${diff.added.length} / -${diff.removed.length}`);
+  for (const url of diff.added) {
+    const name = namesByUrl.get(url);
+    console.log(`  + ${url}${name ? ` (${name})` : ""}`);
+  }
+  for (const url of diff.removed) {
+    console.log(`  - ${url}`);
+  }
+};
+
+const run = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const bsiListFile = path.join(process.cwd(), BSI_APT_RESPONSE_LIST_PATH);
+  const providersFile = path.join(process.cwd(), PROVIDER_SEEDS_PATH);
+  const rowsFile = path.join(process.cwd(), "out", "bsi-apt-response.json");
+
+  const { text, pageCount } = await extractPdfText(await readFile(options.pdfPath));
+  const rows = parseBsiProviderList(text);
+  const seeds = resolveSeeds(rows);
+  if (seeds.length === 0) {
+    throw new Error(`No providers found in ${options.pdfPath}; check that the PDF has a text layer.`);
+  }
+  console.log(`Parsed ${rows.length} row(s) from ${pageCount} page(s); ${seeds.length} unique provider(s).`);
+
+  const namesByUrl = new Map(seeds.map((seed) => [seed.url, seed.row.name]));
+  const bsiUrls = seeds.map((seed) => seed.url);
+  const existingBsi = await loadSeedsIfPresent(bsiListFile);
+  const bsiDiff = diffSeeds(existingBsi, bsiUrls);
+  printDiff(BSI_APT_RESPONSE_LIST_PATH, bsiDiff, namesByUrl);
+
+  // The curated provider list only grows; providers dropped by the BSI stay until removed by hand.
+  const existingProviders = await loadSeedsIfPresent(providersFile);
+  const providerDiff = diffSeeds(existingProviders, bsiUrls);
+  const providerAdditions = { added: providerDiff.added, removed: [] };
+  printDiff(PROVIDER_SEEDS_PATH, providerAdditions, namesByUrl);
+
+  if (options.dryRun) {
+    console.log("Dry run: seed files left unchanged.");
+    return;
+  }
+
+  await writeSeedFile(
+    bsiListFile,
+    [
+      "BSI Qualified APT-Response Service Providers",
+      "Source PDF:",
+      BSI_APT_RESPONSE_URL,
+      `Imported from ${path.basename(options.pdfPath)} on ${new Date().toISOString().slice(0, 10)} (yarn import-bsi).`,
+      "One provider URL per line.",
+    ],
+    bsiUrls,
+  );
+  if (providerAdditions.added.length > 0) {
+    const current = await readFile(providersFile, "utf8").catch(() => "");
+    const separator = current.length > 0 && !current.endsWith("\n") ? "\n" : "";
+    await writeFile(providersFile, `${current}${separator}${providerAdditions.added.join("\n")}\n`, "utf8");
+  }
+
+  await mkdir(path.dirname(rowsFile), { recursive: true });
+  await writeFile(
+    rowsFile,
+    JSON.stringify(
+      seeds.map((seed) => ({ ...seed.row, seedUrl: seed.url, slug: seed.slug })),
+      null,
+      2,
+    ),
+    "utf8",
+  );
+  console.log(`Wrote ${BSI_APT_RESPONSE_LIST_PATH}, ${PROVIDER_SEEDS_PATH} and ${rowsFile}.`);
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,366 @@
+export type ImpressumCountry = "DE" | "AT" | "CH";
+
+export type ImpressumData = {
+  legalName?: string;
+  legalForm?: string;
+  registerCourt?: string;
+  registerNumber?: string;
+  vatId?: string;
+  managingDirectors: string[];
+  postalAddress?: string;
+  country?: ImpressumCountry;
+};
+
+// Longest forms first so "GmbH & Co. KG" is not read as "GmbH".
+const LEGAL_FORMS = [
+  "GmbH & Co. KGaA",
+  "GmbH & Co. KG",
+  "UG (haftungsbeschränkt) & Co. KG",
+  "UG (haftungsbeschränkt)",
+  "PartG mbB",
+  "gGmbH",
+  "GmbH",
+  "KGaA",
+  "e.Kfm.",
+  "e.Kfr.",
+  "e.K.",
+  "e.U.",
+  "PartG",
+  "OHG",
+  "GbR",
+  "Sàrl",
+  "Sagl",
+  "UG",
+  "AG",
+  "SE",
+  "KG",
+  "OG",
+  "SA",
+];
+
+// Words that end a legal name when reading backwards from the legal form.
+const NAME_STOP_WORDS = new Set([
+  "impressum",
+  "imprint",
+  "angaben",
+  "gemäß",
+  "gemaess",
+  "nach",
+  "tmg",
+  "ddg",
+  "mstv",
+  "rstv",
+  "ecg",
+  "ugb",
+  "anbieter",
+  "betreiber",
+  "herausgeber",
+  "verantwortlich",
+  "medieninhaber",
+  "diensteanbieter",
+  "kontakt",
+  "firma",
+  "firmenname",
+  "name",
+  "die",
+  "der",
+  "des",
+  "ist",
+  "eine",
+  "legal",
+  "notice",
+  "information",
+  "provider",
+  "according",
+  "to",
+  "sect",
+  "section",
+  "copyright",
+  "©",
+  "home",
+  "startseite",
+]);
+
+const NAME_ANCHOR_PATTERN =
+  /\b(?:angaben gem(?:ä|ae)(?:ß|ss)|anbieter|diensteanbieter|betreiber|herausgeber|medieninhaber|impressum|imprint|legal notice)\b/i;
+
+const DIRECTOR_LABEL_PATTERN =
+  /\b(?:Geschäftsführer(?:in|innen)?|Geschaeftsfuehrer(?:in)?|Geschäftsführung|Geschäftsleitung|Managing Directors?|Vorstand|Vertretungsberechtigte[rn]?(?: Geschäftsführer(?:in)?| Personen?)?|Vertreten durch|Represented by|Inhaber(?:in)?|Owner)\b\s*(?:\(.*?\))?\s*:?\s*/i;
+
+// Labels that usually follow the director names in a flattened Impressum.
+// Matched as prefixes, so "Registereintrag" and "Aufsichtsratsvorsitzender" stop too.
+const DIRECTOR_STOP_PATTERN =
+  /\b(?:Register|Eintragung|Amtsgericht|Handelsregister|Handelsgericht|Landesgericht|Firmenbuch|HR[AB]\b|FN\b|Sitz|USt|Umsatzsteuer|UID\b|VAT\b|Steuer|Telefon|Tel[.:]|Fax|E-?Mail|Kontakt|Aufsichtsrat|Vorsitz|Verantwortlich|Inhaltlich|Anschrift|Adresse|Postanschrift|Website|Internet|Haftung|Datenschutz|Bankverbindung|IBAN)/;
+
+const NAME_PARTICLES = new Set(["von", "van", "de", "der", "zu", "vom", "den", "la", "le", "di"]);
+const NAME_TITLES = /^(?:Dr\.|Prof\.|Dipl\.-[\wäöü.]+|Ing\.|Mag\.|MBA|M\.Sc\.|B\.Sc\.|h\.c\.)$/;
+
+const STREET_SUFFIXES =
+  "(?:[Ss]tra(?:ß|ss)e|[Ss]tr\\.|[Ww]eg|[Pp]latz|[Aa]llee|[Rr]ing|[Gg]asse|damm|ufer|chaussee|markt|steig|berg|hof|park|feld|garten|kai|promenade|zeile|gürtel|graben|tor|brücke|hafen|wall)";
+// "Ferdinand-Braun-Straße 4", "Wiener Straße 12", "Am Alten Hafen 3", "Komarigasse 2/2/1".
+const STREET_PATTERN = `(?:(?:Am|An der|An den|Im|Auf dem|Auf der|Zum|Zur|Unter den|[A-ZÄÖÜ][a-zäöüß]+er)\\s)?(?:[A-ZÄÖÜ][\\wäöüß.'-]*)?${STREET_SUFFIXES}\\s\\d{1,4}\\s?[a-zA-Z]?(?:\\s?[-–/]\\s?\\d{1,4}[a-zA-Z]?){0,3}`;
+const CITY_PATTERN = "(?:(?:Bad|Sankt|St\\.|Wiener|Markt)\\s)?[A-ZÄÖÜ][\\wäöüß.-]*(?:\\s(?:am|an der|im|bei|ob der)\\s[A-ZÄÖÜ][\\wäöüß-]*)?";
+const ADDRESS_PATTERN = new RegExp(
+  `(${STREET_PATTERN})\\s*,?\\s*((?:D|A|CH)-)?(\\d{4,5})\\s+(${CITY_PATTERN})`,
+);
+
+const COUNTRY_WORDS: Record<string, ImpressumCountry> = {
+  deutschland: "DE",
+  germany: "DE",
+  österreich: "AT",
+  oesterreich: "AT",
+  austria: "AT",
+  schweiz: "CH",
+  switzerland: "CH",
+  suisse: "CH",
+  svizzera: "CH",
+};
+
+const COUNTRY_PREFIXES: Record<string, ImpressumCountry> = { "D-": "DE", "A-": "AT", "CH-": "CH" };
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const trimPunctuation = (value: string): string => value.replace(/^[\s,;:|-]+|[\s,;:|-]+$/g, "");
+
+// Abbreviations whose dot stays when they end a value, e.g. "Freiburg i. Br." or "Lisa Meier jun.".
+const ABBREVIATIONS = new Set(["Br.", "St.", "Nr.", "Str.", "Co.", "Inc.", "Ltd.", "Corp.", "jun.", "sen.", "OPf."]);
+
+const isAbbreviation = (token: string): boolean =>
+  NAME_TITLES.test(token) ||
+  ABBREVIATIONS.has(token) ||
+  // Initials and dotted abbreviations: "A.", "i.", "a.M.", "e.K.", "i.d.OPf."
+  /^(?:[A-Za-zÄÖÜäöü]{1,3}\.)*[A-Za-zÄÖÜäöü]\.$/.test(token);
+
+/** Drops the dot of a sentence that ended on the value: "Handelsgericht Wien." becomes "Handelsgericht Wien". */
+const trimSentenceDot = (value: string): string => {
+  const trimmed = trimPunctuation(value);
+  const lastToken = trimmed.split(/\s+/).pop() ?? "";
+  return trimmed.endsWith(".") && !isAbbreviation(lastToken) ? trimPunctuation(trimmed.slice(0, -1)) : trimmed;
+};
+
+// Mirrors the max lengths in schema.ts. Parsed values skip the LLM repair loop, so
+// one overlong value would otherwise fail the whole provider over to its fallback.
+const MAX_LENGTHS = {
+  legalName: 120,
+  legalForm: 40,
+  registerCourt: 80,
+  registerNumber: 40,
+  vatId: 40,
+  managingDirector: 80,
+  postalAddress: 160,
+};
+const MAX_MANAGING_DIRECTORS = 8;
+
+/** Cuts a value to `max` characters, at the last word boundary when there is one. */
+const clamp = (value: string | undefined, max: number): string | undefined => {
+  if (value === undefined || value.length <= max) {
+    return value;
+  }
+  const cut = value.slice(0, max + 1);
+  const boundary = cut.lastIndexOf(" ");
+  return trimPunctuation(boundary > 0 ? cut.slice(0, boundary) : value.slice(0, max));
+};
+
+const findLegalName = (text: string): { legalName?: string; legalForm?: string } => {
+  const formPattern = new RegExp(
+    `(?:^|\\s)(${LEGAL_FORMS.map(escapeRegExp).join("|")})(?=$|[\\s,;.)|])`,
+    "g",
+  );
+  const anchor = text.search(NAME_ANCHOR_PATTERN);
+  const matches = Array.from(text.matchAll(formPattern));
+  // Prefer the first legal form after "Angaben gemäß § 5 TMG" and similar headings.
+  const ordered = [
+    ...matches.filter((match) => anchor >= 0 && (match.index ?? 0) > anchor),
+    ...matches,
+  ];
+  for (const match of ordered) {
+    const legalForm = match[1];
+    const before = text.slice(0, match.index).trim().split(/\s+/);
+    const nameTokens: string[] = [];
+    for (let index = before.length - 1; index >= 0 && nameTokens.length < 5; index -= 1) {
+      const token = before[index];
+      const lower = token.toLowerCase();
+      if (
+        !token ||
+        NAME_STOP_WORDS.has(lower) ||
+        /[:;,|§]$/.test(token) ||
+        token.includes("§") ||
+        /^\d+$/.test(token)
+      ) {
+        break;
+      }
+      nameTokens.unshift(token);
+    }
+    if (nameTokens.length > 0) {
+      return { legalName: `${nameTokens.join(" ")} ${legalForm}`, legalForm };
+    }
+  }
+  return {};
+};
+
+const readCourtName = (text: string, start: number): string | undefined => {
+  const tokens = text.slice(start).trim().split(/\s+/).slice(0, 5);
+  const nameTokens: string[] = [];
+  for (const token of tokens) {
+    const clean = trimPunctuation(token);
+    if (!clean || /^(?:HR[AB]|FN|UID|USt|Nr\.?)$|^(?:Register|Handelsregister|Firmenbuch|Sitz|Tel|E-?Mail)/i.test(clean)) {
+      break;
+    }
+    const isName = /^[A-ZÄÖÜ(]/.test(clean) || ["am", "an", "der", "im", "i.", "ob"].includes(clean);
+    if (!isName) {
+      break;
+    }
+    const withoutDot = trimSentenceDot(clean);
+    nameTokens.push(withoutDot);
+    // A dropped sentence dot ends the name: "Handelsgericht Wien. UID: ..."
+    if (/[,;]$/.test(token) || withoutDot !== clean || nameTokens.length >= 3) {
+      break;
+    }
+  }
+  return nameTokens.length > 0 ? nameTokens.join(" ").replace(/\s+(?:am|an|der|im|ob)$/, "") : undefined;
+};
+
+const findRegister = (text: string): { registerCourt?: string; registerNumber?: string } => {
+  const germanNumber = text.match(/\b(HR[AB]|GnR|PR|VR)\s*(?:Nr\.?\s*)?:?\s*(\d{1,6}(?:\s?[A-Z]{1,2}\b)?)/);
+  const austrianNumber = text.match(/\bFN\s*:?\s*(\d{1,6}\s?[a-z])\b/);
+  const swissUid = text.match(/\bCHE[-\s]?(\d{3})\.?(\d{3})\.?(\d{3})\b/);
+
+  const registerNumber = germanNumber
+    ? `${germanNumber[1]} ${germanNumber[2].trim()}`
+    : austrianNumber
+      ? `FN ${austrianNumber[1].replace(/\s/g, "")}`
+      : swissUid
+        ? `CHE-${swissUid[1]}.${swissUid[2]}.${swissUid[3]}`
+        : undefined;
+
+  const courtPatterns: Array<{ pattern: RegExp; prefix: string }> = [
+    { pattern: /\bAmtsgericht\s+/, prefix: "Amtsgericht" },
+    { pattern: /\bLandes- und Handelsgericht\s+/, prefix: "Landes- und Handelsgericht" },
+    { pattern: /\bHandelsgericht\s+/, prefix: "Handelsgericht" },
+    { pattern: /\bLandesgericht\s+(?:für\s+ZRS\s+)?/, prefix: "Landesgericht" },
+  ];
+  for (const { pattern, prefix } of courtPatterns) {
+    const match = pattern.exec(text);
+    if (match) {
+      const name = readCourtName(text, match.index + match[0].length);
+      if (name) {
+        return { registerCourt: `${prefix} ${name}`, registerNumber };
+      }
+    }
+  }
+  const canton = text.match(/\bHandelsregister(?:amt)?\s+(?:des\s+)?Kantons?\s+([A-ZÄÖÜ][\wäöü.-]+)/);
+  if (canton) {
+    return { registerCourt: `Handelsregisteramt des Kantons ${trimSentenceDot(canton[1])}`, registerNumber };
+  }
+  return { registerNumber };
+};
+
+const findVatId = (text: string): string | undefined => {
+  const german = text.match(/\bDE\s?(\d{3})\s?(\d{3})\s?(\d{3})\b/);
+  if (german) {
+    return `DE${german[1]}${german[2]}${german[3]}`;
+  }
+  const austrian = text.match(/\bATU\s?(\d{8})\b/);
+  if (austrian) {
+    return `ATU${austrian[1]}`;
+  }
+  const swiss = text.match(/\bCHE[-\s]?(\d{3})\.?(\d{3})\.?(\d{3})\s*(MWST|TVA|IVA|VAT)\b/);
+  return swiss ? `CHE-${swiss[1]}.${swiss[2]}.${swiss[3]} ${swiss[4]}` : undefined;
+};
+
+const isPersonName = (value: string): boolean => {
+  const tokens = value.split(/\s+/).filter((token) => !NAME_TITLES.test(token));
+  if (tokens.length < 2 || tokens.length > 5 || value.length > 60) {
+    return false;
+  }
+  return tokens.every(
+    (token) => /^[A-ZÄÖÜ][\wäöüßéèáàçñ'.-]*$/.test(token) || NAME_PARTICLES.has(token),
+  );
+};
+
+const findManagingDirectors = (text: string): string[] => {
+  const label = DIRECTOR_LABEL_PATTERN.exec(text);
+  if (!label) {
+    return [];
+  }
+  let segment = text.slice(label.index + label[0].length, label.index + label[0].length + 240);
+  // "Vertreten durch die Geschäftsführer: ..." repeats the label.
+  segment = segment.replace(/^(?:den|die|der|unsere[n]?)\s+/i, "").replace(DIRECTOR_LABEL_PATTERN, "");
+  const stop = segment.search(DIRECTOR_STOP_PATTERN);
+  if (stop >= 0) {
+    segment = segment.slice(0, stop);
+  }
+  return segment
+    .split(/\s*(?:,|;|\/|&|\bund\b|\band\b|\|)\s*/)
+    .map((part) => trimSentenceDot(part.replace(/\(.*?\)/g, "")))
+    .filter(isPersonName)
+    .slice(0, MAX_MANAGING_DIRECTORS);
+};
+
+const findAddress = (text: string): { postalAddress?: string; country?: ImpressumCountry; end?: number } => {
+  const match = ADDRESS_PATTERN.exec(text);
+  if (!match) {
+    return {};
+  }
+  const [, street, prefix, postcode, city] = match;
+  return {
+    postalAddress: `${trimPunctuation(street)}, ${postcode} ${trimSentenceDot(city)}`,
+    country: prefix ? COUNTRY_PREFIXES[prefix.toUpperCase()] : undefined,
+    end: match.index + match[0].length,
+  };
+};
+
+const detectCountry = (
+  text: string,
+  address: ReturnType<typeof findAddress>,
+  register: ReturnType<typeof findRegister>,
+  vatId: string | undefined,
+): ImpressumCountry | undefined => {
+  if (address.country) {
+    return address.country;
+  }
+  if (address.end !== undefined) {
+    const following = text.slice(address.end, address.end + 30).toLowerCase();
+    const word = Object.keys(COUNTRY_WORDS).find((entry) => following.includes(entry));
+    if (word) {
+      return COUNTRY_WORDS[word];
+    }
+  }
+  const identifiers = `${register.registerCourt ?? ""} ${register.registerNumber ?? ""} ${vatId ?? ""}`;
+  if (/^DE|Amtsgericht|\bHR[AB]\b/.test(identifiers) || vatId?.startsWith("DE")) {
+    return "DE";
+  }
+  if (/\bFN\b|Handelsgericht|Landesgericht/.test(identifiers) || vatId?.startsWith("ATU")) {
+    return "AT";
+  }
+  if (/CHE-|Kantons/.test(identifiers)) {
+    return "CH";
+  }
+  // Five-digit postcodes are German; four digits are ambiguous between AT and CH.
+  const postcode = address.postalAddress?.match(/, (\d{4,5}) /)?.[1];
+  return postcode?.length === 5 ? "DE" : undefined;
+};
+
+/**
+ * Reads legal disclosures from the flattened text of a German, Austrian or Swiss
+ * Impressum. Every field is optional; anything that does not match a known
+ * pattern is left out rather than guessed.
+ */
+export const parseImpressum = (text: string): ImpressumData => {
+  const { legalName, legalForm } = findLegalName(text);
+  const register = findRegister(text);
+  const vatId = findVatId(text);
+  const address = findAddress(text);
+  return {
+    legalName: clamp(legalName, MAX_LENGTHS.legalName),
+    legalForm: clamp(legalForm, MAX_LENGTHS.legalForm),
+    registerCourt: clamp(register.registerCourt, MAX_LENGTHS.registerCourt),
+    registerNumber: clamp(register.registerNumber, MAX_LENGTHS.registerNumber),
+    vatId: clamp(vatId, MAX_LENGTHS.vatId),
+    managingDirectors: findManagingDirectors(text).flatMap(
+      (name) => clamp(name, MAX_LENGTHS.managingDirector) ?? [],
+    ),
+    postalAddress: clamp(address.postalAddress, MAX_LENGTHS.postalAddress),
+    country: detectCountry(text, address, register, vatId),
+  };
+};
@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+const withDescription = (schema: z.ZodTypeAny, json: JsonSchema): JsonSchema =>
+  schema.description ? { description: schema.description, ...json } : json;
+
+const stringSchema = (schema: z.ZodString): JsonSchema => {
+  const json: JsonSchema = { type: "string" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "min") json.minLength = check.value;
+    if (check.kind === "max") json.maxLength = check.value;
+    if (check.kind === "url") json.format = "uri";
+    if (check.kind === "email") json.format = "email";
+    if (check.kind === "regex") json.pattern = check.regex.source;
+  }
+  return json;
+};
+
+const numberSchema = (schema: z.ZodNumber): JsonSchema => {
+  const json: JsonSchema = { type: "number" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "int") json.type = "integer";
+    if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+  }
+  return json;
+};
+
+const isOptional = (schema: z.ZodTypeAny): boolean =>
+  schema instanceof z.ZodOptional || schema instanceof z.ZodDefault;
+
+/**
+ * Converts the zod constructs used in schema.ts to JSON Schema, so the model sees
+ * the same field list, enums and limits that validation enforces. Refinements
+ * (superRefine) cannot be expressed and are left to validation and repair.
+ */
+export const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(schema, toJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(schema, {
+      ...toJsonSchema(schema.removeDefault()),
+      default: schema._def.defaultValue(),
+    });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(schema, toJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, field]) => !isOptional(field))
+      .map(([key]) => key);
+    // Stripped keys are as useless to us as rejected ones, so only passthrough allows extras.
+    const additional =
+      schema._def.catchall instanceof z.ZodNever
+        ? schema._def.unknownKeys === "passthrough"
+        : toJsonSchema(schema._def.catchall);
+    return withDescription(schema, {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: additional,
+    });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return withDescription(schema, {
+      type: "object",
+      additionalProperties: toJsonSchema(schema.valueSchema),
+    });
+  }
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: "array", items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    return withDescription(schema, json);
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion || schema instanceof z.ZodUnion) {
+    const options = Array.from(schema.options as Iterable<z.ZodTypeAny>);
+    return withDescription(schema, { anyOf: options.map(toJsonSchema) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription(schema, { type: "string", enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription(schema, { const: schema.value });
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription(schema, stringSchema(schema));
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription(schema, numberSchema(schema));
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription(schema, { type: "boolean" });
+  }
+  throw new Error(`toJsonSchema does not support ${schema._def.typeName}.`);
+};
@@ -0,0 +1,243 @@
+import { readFile } from "fs/promises";
+
+import { acquireCrawlPermission, getCrawlerUserAgent } from "./robots";
+import { normalizeSlug } from "./utils";
+
+// "blocked" seeds may well be up, but robots.txt keeps the crawler out.
+export type SeedCheckStatus = "alive" | "dead" | "blocked";
+
+export type SeedCheckResult = {
+  seedUrl: string;
+  slug: string;
+  sourceFiles: string[];
+  status: SeedCheckStatus;
+  reason?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  finalHost?: string;
+  hostChanged: boolean;
+  redirects: string[];
+  tlsError?: string;
+  parkedSignature?: string;
+  checkedAt: string;
+};
+
+export type SeedCheckReport = {
+  checkedAt: string;
+  results: SeedCheckResult[];
+};
+
+export const SEED_CHECK_REPORT_PATH = "out/seed-check.json";
+
+const MAX_REDIRECTS = 10;
+const PROBE_TIMEOUT_MS = 20000;
+const MAX_BODY_BYTES = 256 * 1024;
+
+// Bot protection often answers plain fetches with these while the browser crawl still works.
+const BLOCKED_BUT_ALIVE_STATUSES = [401, 403, 429];
+
+const PARKING_HOSTS = [
+  "sedo.com",
+  "sedoparking.com",
+  "dan.com",
+  "afternic.com",
+  "hugedomains.com",
+  "parkingcrew.net",
+  "bodis.com",
+  "above.com",
+  "undeveloped.com",
+];
+
+const PARKED_SIGNATURES = [
+  "this domain is for sale",
+  "this domain may be for sale",
+  "buy this domain",
+  "domain is parked",
+  "parked free",
+  "diese domain steht zum verkauf",
+  "diese domain kaufen",
+  "die domain ist geparkt",
+  "sedoparking",
+  "parkingcrew",
+  "bodis.com",
+  "hugedomains",
+  "afternic",
+];
+
+const isHostOrSubdomain = (hostname: string, host: string): boolean =>
+  hostname === host || hostname.endsWith(`.${host}`);
+
+const comparableHost = (url: string): string => new URL(url).hostname.replace(/^www\./, "");
+
+const readBodyPrefix = async (response: Response): Promise<string> => {
+  if (!response.body) {
+    return "";
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  while (bytes < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    bytes += value.length;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return text;
+};
+
+const findParkedSignature = (finalUrl: string, body: string): string | undefined => {
+  const { hostname } = new URL(finalUrl);
+  const parkingHost = PARKING_HOSTS.find((host) => isHostOrSubdomain(hostname, host));
+  if (parkingHost) {
+    return `redirected to ${parkingHost}`;
+  }
+  const lower = body.toLowerCase();
+  return PARKED_SIGNATURES.find((signature) => lower.includes(signature));
+};
+
+// undici reports network failures as "fetch failed" with the system error in `cause`.
+const describeFetchError = (error: unknown): { reason: string; tlsError?: string } => {
+  const cause = (error as { cause?: { code?: string } } | undefined)?.cause;
+  const code = cause?.code ?? "";
+  if (/CERT|TLS|SSL/i.test(code)) {
+    return { reason: `TLS error (${code})`, tlsError: code };
+  }
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    return { reason: `DNS lookup failed (${code})` };
+  }
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return { reason: `No response within ${PROBE_TIMEOUT_MS} ms` };
+  }
+  if (code) {
+    return { reason: `Connection failed (${code})` };
+  }
+  return { reason: error instanceof Error ? error.message : String(error) };
+};
+
+/** What a probe observed, before it is classified. */
+export type SeedProbe = {
+  redirects: string[];
+  outcome:
+    | { type: "disallowed"; url: string; reason?: string }
+    | { type: "response"; url: string; httpStatus: number; body: string }
+    | { type: "redirect-limit" }
+    | { type: "error"; error: unknown };
+};
+
+export type SeedClassification = Pick<
+  SeedCheckResult,
+  | "status"
+  | "reason"
+  | "httpStatus"
+  | "finalUrl"
+  | "finalHost"
+  | "hostChanged"
+  | "redirects"
+  | "tlsError"
+  | "parkedSignature"
+>;
+
+/**
+ * Decides whether a probed seed is alive, dead or blocked. Parked domains count as
+ * dead even when they answer 200; 401/403/429 count as alive (bot protection).
+ */
+export const classifySeedProbe = (seedUrl: string, probe: SeedProbe): SeedClassification => {
+  const { redirects, outcome } = probe;
+  if (outcome.type === "disallowed") {
+    return {
+      status: "blocked",
+      reason: `${outcome.reason ?? "Disallowed by robots.txt"}: ${outcome.url}`,
+      hostChanged: false,
+      redirects,
+    };
+  }
+  if (outcome.type === "redirect-limit") {
+    return { status: "dead", reason: `More than ${MAX_REDIRECTS} redirects`, hostChanged: false, redirects };
+  }
+  if (outcome.type === "error") {
+    const { reason, tlsError } = describeFetchError(outcome.error);
+    return { status: "dead", reason, hostChanged: false, redirects, tlsError };
+  }
+
+  const parkedSignature = findParkedSignature(outcome.url, outcome.body);
+  const alive =
+    (outcome.httpStatus >= 200 && outcome.httpStatus < 300) ||
+    BLOCKED_BUT_ALIVE_STATUSES.includes(outcome.httpStatus);
+  return {
+    status: !parkedSignature && alive ? "alive" : "dead",
+    reason: parkedSignature
+      ? `Parked domain (${parkedSignature})`
+      : alive
+        ? undefined
+        : `HTTP ${outcome.httpStatus}`,
+    httpStatus: outcome.httpStatus,
+    finalUrl: outcome.url,
+    finalHost: new URL(outcome.url).hostname,
+    hostChanged: comparableHost(outcome.url) !== comparableHost(seedUrl),
+    redirects,
+    parkedSignature,
+  };
+};
+
+/**
+ * Requests the seed URL the way the crawler would (robots.txt, rate limit, user agent)
+ * and follows redirects hop by hop, so the report shows where a seed really ends up.
+ */
+export const probeSeed = async (seedUrl: string, sourceFiles: string[]): Promise<SeedCheckResult> => {
+  const checkedAt = new Date().toISOString();
+  const redirects: string[] = [];
+  const observe = async (): Promise<SeedProbe["outcome"]> => {
+    let currentUrl = seedUrl;
+    try {
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+        const permission = await acquireCrawlPermission(currentUrl);
+        if (!permission.allowed) {
+          return { type: "disallowed", url: currentUrl, reason: permission.reason };
+        }
+        const response = await fetch(currentUrl, {
+          headers: { "User-Agent": getCrawlerUserAgent() },
+          redirect: "manual",
+          signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+        });
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel().catch(() => undefined);
+          currentUrl = new URL(location, currentUrl).toString();
+          redirects.push(currentUrl);
+          continue;
+        }
+        return {
+          type: "response",
+          url: currentUrl,
+          httpStatus: response.status,
+          body: await readBodyPrefix(response),
+        };
+      }
+      return { type: "redirect-limit" };
+    } catch (error) {
+      return { type: "error", error };
+    }
+  };
+
+  const outcome = await observe();
+  return {
+    seedUrl,
+    slug: normalizeSlug(seedUrl),
+    sourceFiles,
+    ...classifySeedProbe(seedUrl, { redirects, outcome }),
+    checkedAt,
+  };
+};
+
+export const loadSeedCheckReport = async (filePath: string): Promise<SeedCheckReport | null> => {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf8")) as SeedCheckReport;
+    return Array.isArray(parsed.results) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export type LlmCacheMode = "use" | "refresh" | "off";
+
+export type LlmCacheKeyInput = {
+  model: string;
+  baseUrl: string;
+  schemaVersion: number;
+  request: unknown;
+};
+
+type LlmCacheEntry = {
+  key: string;
+  model: string;
+  baseUrl: string;
+  schemaVersion: number;
+  createdAt: string;
+  content: string;
+};
+
+const settings: { mode: LlmCacheMode; dir: string } = {
+  mode: "use",
+  dir: path.join(process.cwd(), "out", "llm-cache"),
+};
+
+const stats = { hits: 0, misses: 0, writes: 0 };
+
+export const configureLlmCache = (options: Partial<typeof settings>) => {
+  Object.assign(settings, options);
+};
+
+export const getLlmCacheStats = () => ({ ...stats, mode: settings.mode });
+
+export const clearLlmCache = async () => {
+  await rm(settings.dir, { recursive: true, force: true });
+};
+
+export const createLlmCacheKey = (input: LlmCacheKeyInput): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([input.model, input.baseUrl, input.schemaVersion, input.request]),
+    )
+    .digest("hex");
+
+const readEntry = async (filePath: string): Promise<LlmCacheEntry | null> => {
+  try {
+    const entry = JSON.parse(await readFile(filePath, "utf8")) as LlmCacheEntry;
+    return typeof entry.content === "string" ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the cached raw response for an identical request, or calls `fetchContent`
+ * and stores its result. `refresh` skips the lookup but still writes; `off` bypasses
+ * the cache entirely.
+ */
+export const withLlmCache = async (
+  input: LlmCacheKeyInput,
+  fetchContent: () => Promise<string>,
+): Promise<{ content: string; cached: boolean }> => {
+  if (settings.mode === "off") {
+    return { content: await fetchContent(), cached: false };
+  }
+
+  const key = createLlmCacheKey(input);
+  const filePath = path.join(settings.dir, `${key}.json`);
+  if (settings.mode === "use") {
+    const entry = await readEntry(filePath);
+    if (entry) {
+      stats.hits += 1;
+      return { content: entry.content, cached: true };
+    }
+  }
+
+  stats.misses += 1;
+  const content = await fetchContent();
+  const entry: LlmCacheEntry = {
+    key,
+    model: input.model,
+    baseUrl: input.baseUrl,
+    schemaVersion: input.schemaVersion,
+    createdAt: new Date().toISOString(),
+    content,
+  };
+  await mkdir(settings.dir, { recursive: true });
+  await writeFile(filePath, JSON.stringify(entry, null, 2), "utf8");
+  stats.writes += 1;
+  return { content, cached: false };
+};
@@ -0,0 +1,141 @@
+import { readFile } from "fs/promises";
+import OpenAI from "openai";
+import path from "path";
+
+import type { JsonSchema } from "./json-schema";
+import { createLlmCacheKey } from "./llm-cache";
+import { PROVIDER_SCHEMA_VERSION } from "./schema";
+
+export type LlmResponseFormat =
+  | { type: "json_object" }
+  | { type: "json_schema"; json_schema: { name: string; schema: JsonSchema; strict: boolean } };
+
+export type LlmChatRequest = {
+  model: string;
+  temperature: number;
+  response_format: LlmResponseFormat;
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+};
+
+export type LlmUsage = {
+  requests: number;
+  cachedResponses: number;
+  latencyMs: number;
+};
+
+export type LlmBackend = {
+  name: LlmBackendName;
+  // Responses of stand-ins must never end up in the response cache of the real model.
+  cacheable: boolean;
+  complete: (request: LlmChatRequest) => Promise<string>;
+};
+
+export const LLM_BACKENDS = ["openai", "offline"] as const;
+
+export type LlmBackendName = (typeof LLM_BACKENDS)[number];
+
+export const DEFAULT_LLM_FIXTURES_DIR = "fixtures/llm";
+
+export const LLM_RESPONSE_FORMATS = ["json_schema", "json_object"] as const;
+
+export type LlmResponseFormatName = (typeof LLM_RESPONSE_FORMATS)[number];
+
+/**
+ * Reads LLM_RESPONSE_FORMAT. `json_object` (default) works with every compatible
+ * endpoint and puts the schema into the prompt; `json_schema` sends it as structured
+ * output for endpoints that support it.
+ */
+export const getLlmResponseFormat = (): LlmResponseFormatName => {
+  const value = process.env.LLM_RESPONSE_FORMAT?.trim().toLowerCase() || "json_object";
+  if (!LLM_RESPONSE_FORMATS.includes(value as LlmResponseFormatName)) {
+    throw new Error(
+      `Unknown LLM_RESPONSE_FORMAT "${process.env.LLM_RESPONSE_FORMAT}". Use one of: ${LLM_RESPONSE_FORMATS.join(", ")}.`,
+    );
+  }
+  return value as LlmResponseFormatName;
+};
+
+// strict: false because strict mode requires every property to be listed as required,
+// which would force the model to invent values for optional fields.
+export const toResponseFormat = (name: LlmResponseFormatName, schema: JsonSchema): LlmResponseFormat =>
+  name === "json_schema"
+    ? { type: "json_schema", json_schema: { name: "provider", schema, strict: false } }
+    : { type: "json_object" };
+
+export const resolveLlmBackendName = (value: string | undefined): LlmBackendName => {
+  const name = value?.trim().toLowerCase() || "openai";
+  if (!LLM_BACKENDS.includes(name as LlmBackendName)) {
+    throw new Error(`Unknown LLM backend "${value}". Use one of: ${LLM_BACKENDS.join(", ")}.`);
+  }
+  return name as LlmBackendName;
+};
+
+/** Any OpenAI-compatible chat completions endpoint (OPENAI_BASE_URL). */
+export const createOpenAiBackend = (options: { apiKey?: string; baseUrl?: string }): LlmBackend => {
+  let client: OpenAI | null = null;
+  return {
+    name: "openai",
+    cacheable: true,
+    complete: async (request) => {
+      if (!options.apiKey) {
+        throw new Error("OPENAI_API_KEY is missing");
+      }
+      client = client ?? new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl || undefined });
+      const response = await client.chat.completions.create(request);
+      return response.choices[0]?.message?.content ?? "{}";
+    },
+  };
+};
+
+// Only the homepage URL can be read from the prompt without a model; everything
+// else is left to the deterministic normalization (service keywords, regions, ...).
+const answerByRules = (request: LlmChatRequest): string => {
+  const prompt = request.messages.map((message) => message.content).join("\n");
+  const homeUrl = prompt.match(/^# home(?:-[a-z]{2})? \((https?:\/\/[^)\s]+)\)/m)?.[1];
+  return JSON.stringify({
+    ...(homeUrl ? { website: homeUrl } : {}),
+    notes: "Extracted offline without an LLM.",
+  });
+};
+
+/**
+ * Deterministic stand-in for tests and offline runs. A request is answered from
+ * `<fixturesDir>/<cache key>.json` when present; entries from `out/llm-cache/` have
+ * the same name and format, so a recorded run can be copied over as fixtures.
+ * Requests without a fixture get a rule-based answer.
+ */
+export const createOfflineBackend = (options: { fixturesDir: string; baseUrl?: string }): LlmBackend => ({
+  name: "offline",
+  cacheable: false,
+  complete: async (request) => {
+    const key = createLlmCacheKey({
+      model: request.model,
+      baseUrl: options.baseUrl ?? "",
+      schemaVersion: PROVIDER_SCHEMA_VERSION,
+      request,
+    });
+    try {
+      const fixture = JSON.parse(await readFile(path.join(options.fixturesDir, `${key}.json`), "utf8")) as {
+        content?: unknown;
+      };
+      if (typeof fixture.content === "string") {
+        return fixture.content;
+      }
+    } catch {
+      // No fixture for this request.
+    }
+    return answerByRules(request);
+  },
+});
+
+/** Builds the backend named by `--llm-backend` or LLM_BACKEND (default `openai`). */
+export const createLlmBackend = (name: string | undefined = process.env.LLM_BACKEND): LlmBackend => {
+  const baseUrl = process.env.OPENAI_BASE_URL || "";
+  if (resolveLlmBackendName(name) === "offline") {
+    return createOfflineBackend({
+      fixturesDir: path.join(process.cwd(), process.env.LLM_FIXTURES_DIR || DEFAULT_LLM_FIXTURES_DIR),
+      baseUrl,
+    });
+  }
+  return createOpenAiBackend({ apiKey: process.env.OPENAI_API_KEY, baseUrl });
+};
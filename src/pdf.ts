@@ -0,0 +1,27 @@
+import { PDFParse } from "pdf-parse";
+
+export type PdfText = {
+  text: string;
+  pageCount: number;
+};
+
+export const PDF_CONTENT_TYPE = "application/pdf";
+
+export const isPdfBuffer = (bytes: Uint8Array): boolean =>
+  bytes.length > 4 &&
+  bytes[0] === 0x25 &&
+  bytes[1] === 0x50 &&
+  bytes[2] === 0x44 &&
+  bytes[3] === 0x46;
+
+export const extractPdfText = async (data: Uint8Array): Promise<PdfText> => {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    // pdf-parse appends "-- 1 of 3 --" style page separators.
+    const text = result.text.replace(/^-- \d+ of \d+ --$/gm, "");
+    return { text, pageCount: result.total };
+  } finally {
+    await parser.destroy();
+  }
+};
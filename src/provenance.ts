@@ -0,0 +1,122 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+import { CrawledPage } from "./crawl";
+import { createEvidenceIndex, EvidenceIndex, hasLiteralEvidence } from "./evidence";
+import { ProviderFrontmatter } from "./schema";
+import { normalizeText } from "./utils";
+
+export type FieldProvenance = {
+  url: string;
+  pageKey: string;
+  quote: string;
+};
+
+export type ProviderProvenance = Partial<Record<keyof ProviderFrontmatter, FieldProvenance>>;
+
+export type CandidateProvenance = Record<string, { url?: unknown; quote?: unknown } | undefined>;
+
+const MAX_QUOTE_LENGTH = 200;
+
+export const comparableUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value);
+    url.hash = "";
+    return `${url.origin}${url.pathname.replace(/\/+$/, "")}${url.search}`.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const isPopulated = (value: unknown): boolean => {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === "string") {
+    return value.trim().length > 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return true;
+};
+
+/**
+ * Keeps only provenance entries that point at a crawled page, quote text that page
+ * actually contains and belong to a field that survived normalization, so every
+ * citation can be opened and checked.
+ */
+export const buildProvenance = (
+  candidate: CandidateProvenance | undefined,
+  provider: ProviderFrontmatter,
+  pages: CrawledPage[],
+): ProviderProvenance => {
+  if (!candidate || typeof candidate !== "object") {
+    return {};
+  }
+
+  const pagesByUrl = new Map<string, CrawledPage>();
+  for (const page of pages) {
+    const key = comparableUrl(page.url);
+    if (key) {
+      pagesByUrl.set(key, page);
+    }
+  }
+
+  // Indexed on first use; most pages are cited by several fields or not at all.
+  const indexes = new Map<string, EvidenceIndex>();
+  const quotedOn = (page: CrawledPage, quote: string): boolean => {
+    let index = indexes.get(page.key);
+    if (!index) {
+      index = createEvidenceIndex(page.text);
+      indexes.set(page.key, index);
+    }
+    return hasLiteralEvidence(index, quote);
+  };
+
+  const provenance: ProviderProvenance = {};
+  for (const [field, entry] of Object.entries(candidate)) {
+    if (!(field in provider) || !isPopulated(provider[field as keyof ProviderFrontmatter])) {
+      continue;
+    }
+    if (!entry || typeof entry.url !== "string") {
+      continue;
+    }
+    const urlKey = comparableUrl(entry.url);
+    const page = urlKey ? pagesByUrl.get(urlKey) : undefined;
+    if (!page) {
+      continue;
+    }
+    const quote = typeof entry.quote === "string" ? normalizeText(entry.quote) : "";
+    if (!quotedOn(page, quote)) {
+      continue;
+    }
+    provenance[field as keyof ProviderFrontmatter] = {
+      url: page.url,
+      pageKey: page.key,
+      quote: quote.slice(0, MAX_QUOTE_LENGTH),
+    };
+  }
+  return provenance;
+};
+
+export const writeProvenanceSidecar = async (
+  outDir: string,
+  slug: string,
+  provenance: ProviderProvenance,
+) => {
+  await mkdir(outDir, { recursive: true });
+  const filename = path.join(outDir, `${slug}.provenance.json`);
+  const payload = {
+    slug,
+    generatedAt: new Date().toISOString(),
+    fields: provenance,
+  };
+  await writeFile(filename, JSON.stringify(payload, null, 2), "utf8");
+};
+
+export const formatProvenanceCell = (provenance: ProviderProvenance): string =>
+  Object.entries(provenance)
+    .filter((entry): entry is [string, FieldProvenance] => Boolean(entry[1]))
+    .map(([field, entry]) => `${field}: ${entry.url}`)
+    .join("; ");
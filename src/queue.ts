@@ -0,0 +1,80 @@
+import { Logger } from "./utils";
+
+type BufferedLine = {
+  level: keyof Logger;
+  args: unknown[];
+};
+
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> => {
+  let nextIndex = 0;
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  const runners = Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+};
+
+/**
+ * Keeps concurrent work observable in input order: each item gets a logger whose
+ * lines are printed only once every earlier item has finished, and `waitTurn`
+ * lets an item hold back a side effect (like a sheet write) until its turn.
+ */
+export const createSequencer = (count: number, sink: Logger = console) => {
+  const buffers: BufferedLine[][] = Array.from({ length: count }, () => []);
+  const done: boolean[] = Array.from({ length: count }, () => false);
+  const waiters = new Map<number, () => void>();
+  let cursor = 0;
+
+  const print = (line: BufferedLine) => {
+    sink[line.level](...line.args);
+  };
+
+  const advance = () => {
+    while (cursor < count && done[cursor]) {
+      cursor += 1;
+      if (cursor < count) {
+        buffers[cursor].forEach(print);
+        buffers[cursor] = [];
+        waiters.get(cursor)?.();
+        waiters.delete(cursor);
+      }
+    }
+  };
+
+  const loggerFor = (index: number): Logger => {
+    const write =
+      (level: keyof Logger) =>
+      (...args: unknown[]) => {
+        if (index === cursor) {
+          print({ level, args });
+          return;
+        }
+        buffers[index].push({ level, args });
+      };
+    return { log: write("log"), warn: write("warn"), error: write("error") };
+  };
+
+  const waitTurn = (index: number): Promise<void> => {
+    if (index <= cursor) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      waiters.set(index, resolve);
+    });
+  };
+
+  const complete = (index: number) => {
+    done[index] = true;
+    advance();
+  };
+
+  return { loggerFor, waitTurn, complete };
+};
@@ -0,0 +1,86 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { z } from "zod";
+
+import type { ProviderFrontmatter } from "./schema";
+
+export type ReportIssue = {
+  // "initial", "repair 1", ..., "after dropping fields" or "final".
+  attempt: string;
+  path: string;
+  code: string;
+  message: string;
+};
+
+export type ReportFieldChange = {
+  field: string;
+  value?: unknown;
+  reason: string;
+};
+
+export type ReportBlockedText = {
+  field: "short_description" | "differentiator";
+  value: string;
+  reason: string;
+  replacement?: string;
+};
+
+export type ReportPublishGate = {
+  gate: "short_description" | "non_default_facts" | "relevance_signals";
+  reason: string;
+  actual?: number;
+  required?: number;
+};
+
+// How the extraction got past schema validation; "invalid" means it never did.
+export type ValidationOutcome = "valid" | "repaired" | "fields_dropped" | "fallback" | "invalid";
+
+/**
+ * Everything normalization decided about one provider, untruncated. The sheet's
+ * `notes` cell is cut at 240 characters; this report is not.
+ */
+export type ProviderReport = {
+  validation: ValidationOutcome;
+  validationIssues: ReportIssue[];
+  defaulted: ReportFieldChange[];
+  dropped: ReportFieldChange[];
+  blocked: ReportBlockedText[];
+  failedPublishGates: ReportPublishGate[];
+  notes: string[];
+};
+
+export const createProviderReport = (): ProviderReport => ({
+  validation: "valid",
+  validationIssues: [],
+  defaulted: [],
+  dropped: [],
+  blocked: [],
+  failedPublishGates: [],
+  notes: [],
+});
+
+export const toReportIssues = (attempt: string, issues: z.ZodIssue[]): ReportIssue[] =>
+  issues.map((issue) => ({
+    attempt,
+    path: issue.path.join(".") || "(root)",
+    code: issue.code,
+    message: issue.message,
+  }));
+
+export const writeProviderReport = async (
+  outDir: string,
+  slug: string,
+  provider: ProviderFrontmatter,
+  report: ProviderReport,
+) => {
+  await mkdir(outDir, { recursive: true });
+  const filename = path.join(outDir, `${slug}.report.json`);
+  const payload = {
+    slug,
+    generatedAt: new Date().toISOString(),
+    publishStatus: provider.publish_status ?? "published",
+    evidenceLevel: provider.evidence_level,
+    ...report,
+  };
+  await writeFile(filename, JSON.stringify(payload, null, 2), "utf8");
+};
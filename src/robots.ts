@@ -0,0 +1,231 @@
+const DEFAULT_USER_AGENT = "CybernautenProviderResearch/0.1";
+const DEFAULT_MIN_DELAY_MS = 1000;
+const MAX_CRAWL_DELAY_MS = 30000;
+const ROBOTS_TIMEOUT_MS = 10000;
+
+type RobotsRule = {
+  allow: boolean;
+  path: string;
+};
+
+type RobotsGroup = {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+};
+
+export type ParsedRobots = {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+};
+
+export type RobotsPolicy = {
+  isAllowed: (url: string) => boolean;
+  crawlDelayMs?: number;
+  sitemaps: string[];
+  // Set when the whole site is off limits for a reason other than its rules.
+  blockedReason?: string;
+};
+
+export type CrawlPermission = {
+  allowed: boolean;
+  reason?: string;
+};
+
+const policyCache = new Map<string, Promise<RobotsPolicy>>();
+const nextSlotByHost = new Map<string, number>();
+
+export const getCrawlerUserAgent = (): string =>
+  process.env.CRAWLER_USER_AGENT?.trim() || DEFAULT_USER_AGENT;
+
+const getMinDelayMs = (): number => {
+  const value = Number.parseInt(process.env.CRAWL_MIN_DELAY_MS ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MIN_DELAY_MS;
+};
+
+// robots.txt groups are matched against the product token, e.g. "CybernautenProviderResearch".
+const getProductToken = (userAgent: string): string =>
+  userAgent.split(/[\s/]/)[0]?.toLowerCase() ?? "";
+
+export const parseRobots = (content: string): ParsedRobots => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "sitemap") {
+      if (value) {
+        sitemaps.push(value);
+      }
+      continue;
+    }
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) {
+      continue;
+    }
+    if (field === "allow" || field === "disallow") {
+      // An empty Disallow allows everything and adds no rule.
+      if (value) {
+        current.rules.push({ allow: field === "allow", path: value });
+      }
+    } else if (field === "crawl-delay") {
+      const delay = Number.parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelaySeconds = delay;
+      }
+    }
+  }
+
+  return { groups, sitemaps };
+};
+
+const selectGroups = (robots: ParsedRobots, userAgent: string): RobotsGroup[] => {
+  const token = getProductToken(userAgent);
+  const specific = robots.groups.filter((group) =>
+    // RFC 9309: the product token must match as a whole, ignoring case; "research" is not a match.
+    group.agents.some((agent) => agent !== "*" && agent === token),
+  );
+  if (specific.length > 0) {
+    return specific;
+  }
+  return robots.groups.filter((group) => group.agents.includes("*"));
+};
+
+const patternToRegExp = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+};
+
+/**
+ * Applies RFC 9309 matching: the longest matching rule wins and Allow wins ties.
+ */
+export const isPathAllowed = (rules: RobotsRule[], pathWithQuery: string): boolean => {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!patternToRegExp(rule.path).test(pathWithQuery)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+};
+
+export const buildPolicy = (robots: ParsedRobots, userAgent: string): RobotsPolicy => {
+  const groups = selectGroups(robots, userAgent);
+  const rules = groups.flatMap((group) => group.rules);
+  const delays = groups
+    .map((group) => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== undefined);
+  return {
+    isAllowed: (url: string) => {
+      const parsed = new URL(url);
+      return isPathAllowed(rules, `${parsed.pathname}${parsed.search}`);
+    },
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) * 1000 : undefined,
+    sitemaps: robots.sitemaps,
+  };
+};
+
+const allowAll: RobotsPolicy = { isAllowed: () => true, sitemaps: [] };
+const disallowAll: RobotsPolicy = { isAllowed: () => false, sitemaps: [] };
+
+const fetchRobotsPolicy = async (origin: string): Promise<RobotsPolicy> => {
+  const userAgent = getCrawlerUserAgent();
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+    });
+    if (response.status >= 500) {
+      // RFC 9309: an unavailable robots.txt means the whole site is off limits.
+      return { ...disallowAll, blockedReason: `robots.txt answered HTTP ${response.status}` };
+    }
+    if (!response.ok) {
+      return allowAll;
+    }
+    return buildPolicy(parseRobots(await response.text()), userAgent);
+  } catch {
+    return allowAll;
+  }
+};
+
+export const getRobotsPolicy = (url: string): Promise<RobotsPolicy> => {
+  const { origin } = new URL(url);
+  let policy = policyCache.get(origin);
+  if (!policy) {
+    policy = fetchRobotsPolicy(origin);
+    policyCache.set(origin, policy);
+  }
+  return policy;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reserves the next request slot for the URL's host. Slots are spaced by the
+ * larger of CRAWL_MIN_DELAY_MS and the host's Crawl-delay, across all providers.
+ */
+const waitForHostSlot = async (url: string, crawlDelayMs: number | undefined) => {
+  const { host } = new URL(url);
+  const delay = Math.max(getMinDelayMs(), Math.min(crawlDelayMs ?? 0, MAX_CRAWL_DELAY_MS));
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByHost.get(host) ?? 0);
+  nextSlotByHost.set(host, slot + delay);
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+};
+
+export const acquireCrawlPermission = async (url: string): Promise<CrawlPermission> => {
+  const policy = await getRobotsPolicy(url);
+  if (!policy.isAllowed(url)) {
+    return { allowed: false, reason: policy.blockedReason ?? "Disallowed by robots.txt" };
+  }
+  await waitForHostSlot(url, policy.crawlDelayMs);
+  return { allowed: true };
+};
+
+/**
+ * `fetch` for crawl-side requests (sitemaps, documents): honours robots.txt and the
+ * per-host rate limit and identifies with the crawler user agent. Returns null when
+ * robots.txt disallows the URL.
+ */
+export const politeFetch = async (url: string, init: RequestInit = {}): Promise<Response | null> => {
+  const permission = await acquireCrawlPermission(url);
+  if (!permission.allowed) {
+    return null;
+  }
+  const headers = new Headers(init.headers);
+  headers.set("User-Agent", getCrawlerUserAgent());
+  return fetch(url, { ...init, headers });
+};
@@ -1,50 +1,356 @@
-import { readFile } from "fs/promises";
 import path from "path";
+import { createInterface } from "readline/promises";
 import { config } from "dotenv";
 
-import { crawlSeed } from "./crawl";
+import { Browser } from "playwright";
+
+import { createProviderAliasStore, PROVIDER_ALIASES_PATH, ProviderAliasStore } from "./aliases";
+import { getExtractionTokenBudget } from "./chunking";
+import { getLeadContactPreference, LeadContactType } from "./contact";
+import {
+  CrawledPage,
+  crawlSeed,
+  FailedUrl,
+  getCanonicalOrigin,
+  hashPages,
+  launchCrawlerBrowser,
+  loadRawPages,
+  SkippedUrl,
+} from "./crawl";
 import { extractProvider } from "./extract";
-import { upsertProviderRow } from "./sheet";
-import { normalizeSlug } from "./utils";
+import { loadSeedCheckReport, SEED_CHECK_REPORT_PATH } from "./liveness";
+import { createLlmBackend, LlmBackend } from "./llm";
+import { clearLlmCache, configureLlmCache, getLlmCacheStats, LlmCacheMode } from "./llm-cache";
+import { writeProvenanceSidecar } from "./provenance";
+import { toReportIssues, writeProviderReport } from "./report";
+import { createSequencer, runWithConcurrency } from "./queue";
+import { ProviderFrontmatterSchema, PROVIDER_SCHEMA_VERSION } from "./schema";
+import { loadSeeds, PROVIDER_SEEDS_PATH } from "./seeds";
+import {
+  formatSheetConflict,
+  formatSheetDiff,
+  getMergePolicies,
+  MergePolicy,
+  planProviderRow,
+  readProviderRow,
+  SheetColumn,
+  SheetRowPlan,
+  upsertProviderRow,
+} from "./sheet";
+import { RUN_REPORTS_DIR, RunSummaryRow, summarizeRun, writeRunSummary } from "./summary";
+import {
+  ContentHashStore,
+  createContentHashStore,
+  createRunStateStore,
+  hasReachedStage,
+  RunStage,
+  RunStateStore,
+} from "./state";
+import { Logger, normalizeSlug } from "./utils";
 
 config();
 
 type CliOptions = {
   dryRun: boolean;
+  diff: boolean;
+  confirm: boolean;
+  resume: boolean;
+  force: boolean;
+  fromRaw: boolean;
+  llmCache: LlmCacheMode;
+  clearLlmCache: boolean;
+  concurrency: number;
+  includeDead: boolean;
   onlySlug?: string;
+  llmBackend?: string;
+};
+
+type RunContext = {
+  options: CliOptions;
+  outDir: string;
+  browser?: Browser;
+  state: RunStateStore;
+  contentHashes: ContentHashStore;
+  aliases: ProviderAliasStore;
+  llmBackend: LlmBackend;
+  leadContactPreference: LeadContactType[];
+  tokenBudget: number;
+  mergePolicies: Record<SheetColumn, MergePolicy>;
+  // "<court> <register number>" -> provider ID, to spot one company behind several domains.
+  registerOwners: Map<string, string>;
+  finalStage: RunStage;
+  summaryRows: Map<string, RunSummaryRow>;
 };
 
 const parseArgs = (argv: string[]): CliOptions => {
-  const options: CliOptions = { dryRun: false };
+  const options: CliOptions = {
+    dryRun: false,
+    diff: false,
+    confirm: false,
+    resume: false,
+    force: false,
+    fromRaw: false,
+    llmCache: "use",
+    clearLlmCache: false,
+    concurrency: 1,
+    includeDead: false,
+  };
   for (let i = 0; i < argv.length; i += 1) {
     const arg = argv[i];
     if (arg === "--dry-run") {
       options.dryRun = true;
     }
+    if (arg === "--diff") {
+      options.diff = true;
+    }
+    if (arg === "--confirm") {
+      options.diff = true;
+      options.confirm = true;
+    }
+    if (arg === "--resume") {
+      options.resume = true;
+    }
+    if (arg === "--force") {
+      options.force = true;
+    }
+    if (arg === "--from-raw") {
+      options.fromRaw = true;
+    }
+    if (arg === "--no-llm-cache") {
+      options.llmCache = "off";
+    }
+    if (arg === "--refresh-llm-cache") {
+      options.llmCache = "refresh";
+    }
+    if (arg === "--clear-llm-cache") {
+      options.clearLlmCache = true;
+    }
+    if (arg === "--concurrency") {
+      const value = Number.parseInt(argv[i + 1] ?? "", 10);
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error("--concurrency expects a positive integer.");
+      }
+      options.concurrency = value;
+      i += 1;
+    }
+    if (arg === "--include-dead") {
+      options.includeDead = true;
+    }
+    if (arg === "--llm-backend") {
+      options.llmBackend = argv[i + 1];
+      i += 1;
+    }
     if (arg === "--only") {
       options.onlySlug = argv[i + 1];
       i += 1;
     }
   }
+  if (options.confirm && (options.dryRun || options.fromRaw)) {
+    throw new Error("--confirm writes to the sheet and cannot be combined with --dry-run or --from-raw.");
+  }
+  // Re-extraction from snapshots is for iterating on prompts and rules; it never writes the sheet.
+  // A plain --diff only previews the sheet changes.
+  if (options.fromRaw || (options.diff && !options.confirm)) {
+    options.dryRun = true;
+  }
   return options;
 };
 
-const loadSeeds = async (filePath: string) => {
-  const content = await readFile(filePath, "utf8");
-  return content
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0 && !line.startsWith("#"));
+const confirm = async (question: string): Promise<boolean> => {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^(y|yes|j|ja)$/i.test((await prompt.question(question)).trim());
+  } finally {
+    prompt.close();
+  }
+};
+
+const processProvider = async (
+  seedUrl: string,
+  context: RunContext,
+  logger: Logger,
+  waitTurn: () => Promise<void>,
+) => {
+  const { options, outDir, browser, state, contentHashes, aliases } = context;
+  const slug = normalizeSlug(seedUrl);
+  const row: RunSummaryRow = {
+    slug,
+    seedUrl,
+    outcome: "failed",
+    publishReasons: [],
+    defaultedFields: [],
+    sheetConflicts: [],
+  };
+  context.summaryRows.set(slug, row);
+  if (options.resume && hasReachedStage(state.get(slug), context.finalStage)) {
+    logger.log(`Skipping ${slug} (already ${state.get(slug)?.stage}).`);
+    row.outcome = "skipped";
+    return;
+  }
+
+  logger.log(`Processing ${slug}...`);
+  await state.begin(slug, seedUrl);
+  try {
+    let pages: CrawledPage[];
+    let skippedUrls: SkippedUrl[] | undefined;
+    if (options.fromRaw) {
+      pages = await loadRawPages(slug, outDir);
+      if (pages.length === 0) {
+        throw new Error(`No raw snapshots found for ${slug} in ${outDir}.`);
+      }
+      logger.log(`Loaded ${pages.length} raw page(s) for ${slug}.`);
+    } else {
+      let failedUrls: FailedUrl[];
+      ({ pages, skippedUrls, failedUrls } = await crawlSeed(seedUrl, outDir, { browser, logger }));
+      row.pagesFetched = pages.length;
+      row.pagesFailed = failedUrls.length;
+    }
+    row.impressumFound = pages.some((page) => page.key === "impressum");
+    row.externalProofPages = pages.filter((page) => page.discoveryReason === "external-proof").length;
+    await state.markStage(slug, seedUrl, "crawled", { skippedUrls });
+
+    const identity = aliases.identify(seedUrl, getCanonicalOrigin(seedUrl, pages));
+    if (identity.providerId !== slug) {
+      logger.log(`Resolved ${slug} to provider ${identity.providerId} (${identity.canonicalOrigin}).`);
+    }
+
+    const sourceHash = hashPages(pages);
+    if (!options.fromRaw && !options.force && contentHashes.isUnchanged(slug, sourceHash)) {
+      logger.log(`Unchanged ${slug} (content ${sourceHash}); skipping extraction and upsert.`);
+      await state.markStage(slug, seedUrl, "unchanged");
+      row.outcome = "unchanged";
+      return;
+    }
+
+    const { provider, provenance, review, report, llm } = await extractProvider(seedUrl, pages, {
+      identity,
+      resolveProviderId: aliases.resolve,
+      backend: context.llmBackend,
+      leadContactPreference: context.leadContactPreference,
+      tokenBudget: context.tokenBudget,
+    });
+    row.llmRequests = llm.requests;
+    row.llmCachedResponses = llm.cachedResponses;
+    row.llmLatencyMs = llm.latencyMs;
+    await state.markStage(slug, seedUrl, "extracted");
+
+    const validation = ProviderFrontmatterSchema.safeParse(provider);
+    if (!validation.success) {
+      report.validation = "invalid";
+      report.validationIssues.push(...toReportIssues("final", validation.error.issues));
+    }
+    row.validation = report.validation;
+    row.publishStatus = provider.publish_status;
+    row.publishReasons = report.failedPublishGates.map((gate) => gate.reason);
+    row.defaultedFields = report.defaulted.map((entry) => entry.field);
+    await writeProviderReport(outDir, slug, provider, report);
+    if (!validation.success) {
+      throw new Error(
+        `Provider failed schema validation: ${validation.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`,
+      );
+    }
+    await state.markStage(slug, seedUrl, "validated");
+    if (provider.register_number) {
+      const registerKey = [provider.register_court, provider.register_number].filter(Boolean).join(" ");
+      const owner = context.registerOwners.get(registerKey);
+      if (owner && owner !== provider.slug) {
+        logger.warn(
+          `${provider.slug} shares register entry ${registerKey} with ${owner}; add an alias to ${PROVIDER_ALIASES_PATH} if both are the same company.`,
+        );
+      } else {
+        context.registerOwners.set(registerKey, provider.slug);
+      }
+    }
+    await writeProvenanceSidecar(outDir, slug, provenance);
+    if (review.length > 0) {
+      logger.warn(`Models disagreed for ${slug}: ${review.join("; ")}`);
+    }
+
+    const pageHashes = Object.fromEntries(pages.map((page) => [page.key, page.hash ?? ""]));
+    const markUpserted = async () => {
+      await state.markStage(slug, seedUrl, "upserted");
+      await contentHashes.record(slug, sourceHash, pageHashes);
+    };
+
+    // Sheet reads, prompts and writes happen one provider at a time, in seed order: a
+    // diff sees the rows earlier seeds wrote, and appended rows stay deterministic.
+    let confirmedPlan: SheetRowPlan | undefined;
+    if (options.diff) {
+      await waitTurn();
+      const existing = await readProviderRow(provider.slug, { resolveProviderId: aliases.resolve });
+      const plan = planProviderRow(existing, provider, { provenance, review }, context.mergePolicies);
+      row.sheetConflicts = plan.conflicts.map(formatSheetConflict);
+      logger.log(formatSheetDiff(provider.slug, plan, row.defaultedFields));
+      const approved =
+        !options.confirm ||
+        plan.changes.length === 0 ||
+        (await confirm(`Write ${provider.slug} to the sheet? [y/N] `));
+      if (!approved) {
+        logger.log(`Left ${slug} unchanged in the sheet.`);
+        row.outcome = "declined";
+        return;
+      }
+      if (plan.changes.length === 0 && !options.dryRun) {
+        await markUpserted();
+        logger.log(`Sheet row of ${slug} is already up to date.`);
+        row.outcome = "unchanged";
+        return;
+      }
+      confirmedPlan = plan;
+    }
+
+    if (options.dryRun) {
+      if (!options.diff) {
+        logger.log(JSON.stringify(provider, null, 2));
+      }
+      row.outcome = "validated";
+      return;
+    }
+
+    await waitTurn();
+    const plan = await upsertProviderRow(
+      provider,
+      { provenance, review },
+      { resolveProviderId: aliases.resolve, logger, plan: confirmedPlan, policies: context.mergePolicies },
+    );
+    row.sheetConflicts = plan.conflicts.map(formatSheetConflict);
+    if (plan.conflicts.length > 0) {
+      logger.warn(`Kept sheet values for ${slug}: ${row.sheetConflicts.join("; ")}`);
+    }
+    await markUpserted();
+    row.outcome = "upserted";
+    logger.log(`Upserted ${slug}.`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    row.error = message;
+    logger.error(`Failed ${slug}: ${message}`);
+    await state.markFailed(slug, seedUrl, error);
+  }
 };
 
 const run = async () => {
+  const startedAt = new Date().toISOString();
   const options = parseArgs(process.argv.slice(2));
-  const seedsFile = path.join(process.cwd(), "seeds", "providers.txt");
+  const seedsFile = path.join(process.cwd(), PROVIDER_SEEDS_PATH);
   const outDir = path.join(process.cwd(), "out", "raw");
+  const stateFile = path.join(
+    process.cwd(),
+    "out",
+    options.fromRaw ? "run-state-from-raw.json" : "run-state.json",
+  );
+  const contentHashFile = path.join(process.cwd(), "out", "content-hashes.json");
+  const seedCheckFile = path.join(process.cwd(), SEED_CHECK_REPORT_PATH);
+  const aliasFile = path.join(process.cwd(), PROVIDER_ALIASES_PATH);
+
+  if (options.confirm && !process.stdin.isTTY) {
+    throw new Error("--confirm asks before each sheet write and needs an interactive terminal.");
+  }
 
   const seeds = await loadSeeds(seedsFile);
   if (seeds.length === 0) {
-    throw new Error("No provider seeds found in seeds/providers.txt");
+    throw new Error(`No provider seeds found in ${PROVIDER_SEEDS_PATH}`);
   }
 
   const filtered = options.onlySlug
@@ -55,19 +361,116 @@ const run = async () => {
     throw new Error("No seeds matched --only slug.");
   }
 
-  for (const seedUrl of filtered) {
-    const slug = normalizeSlug(seedUrl);
-    console.log(`Processing ${slug}...`);
-    const pages = await crawlSeed(seedUrl, outDir);
-    const { provider } = await extractProvider(seedUrl, pages);
-
-    if (options.dryRun) {
-      console.log(JSON.stringify(provider, null, 2));
-      continue;
+  // Seeds blocked by robots.txt are skipped even with --include-dead: the crawler
+  // honours the same rules, so crawling them would only produce a fallback record.
+  const seedCheck = await loadSeedCheckReport(seedCheckFile);
+  const uncrawlable = new Map(
+    (seedCheck?.results ?? [])
+      .filter((result) => result.status === "blocked" || (result.status === "dead" && !options.includeDead))
+      .map((result) => [result.seedUrl, result]),
+  );
+  const runnable = filtered.filter((seedUrl) => {
+    const result = uncrawlable.get(seedUrl);
+    if (!result) {
+      return true;
     }
+    console.warn(
+      result.status === "blocked"
+        ? `Skipping ${normalizeSlug(seedUrl)}: blocked (${result.reason}) per ${SEED_CHECK_REPORT_PATH}. Rerun yarn check-seeds once the site allows crawling.`
+        : `Skipping ${normalizeSlug(seedUrl)}: dead seed (${result.reason}) per ${SEED_CHECK_REPORT_PATH}. Use --include-dead to crawl it anyway.`,
+    );
+    return false;
+  });
+  if (runnable.length === 0) {
+    throw new Error(`All selected seeds are dead or blocked by robots.txt per ${SEED_CHECK_REPORT_PATH}.`);
+  }
+
+  // Settings from the environment are parsed before the first crawl, so a typo fails
+  // the run up front instead of every provider after its crawl.
+  const leadContactPreference = getLeadContactPreference();
+  const tokenBudget = getExtractionTokenBudget();
+  const mergePolicies = getMergePolicies();
+
+  const llmBackend = createLlmBackend(options.llmBackend ?? process.env.LLM_BACKEND);
+  if (llmBackend.name !== "openai") {
+    console.log(`Using the ${llmBackend.name} LLM backend; responses are not cached.`);
+  }
+  configureLlmCache({ mode: options.llmCache });
+  if (options.clearLlmCache) {
+    await clearLlmCache();
+  }
+
+  const state = await createRunStateStore(stateFile, {
+    resume: options.resume,
+    slugs: runnable.map((seedUrl) => normalizeSlug(seedUrl)),
+  });
+  const contentHashes = await createContentHashStore(contentHashFile, PROVIDER_SCHEMA_VERSION);
+  const aliases = await createProviderAliasStore(aliasFile, { readOnly: options.dryRun });
+  const browser = options.fromRaw ? undefined : await launchCrawlerBrowser();
+  const context: RunContext = {
+    options,
+    outDir,
+    browser,
+    state,
+    contentHashes,
+    aliases,
+    llmBackend,
+    leadContactPreference,
+    tokenBudget,
+    mergePolicies,
+    registerOwners: new Map(),
+    finalStage: options.dryRun ? "validated" : "upserted",
+    summaryRows: new Map(),
+  };
+  const sequencer = createSequencer(runnable.length);
+
+  try {
+    await runWithConcurrency(runnable, options.concurrency, async (seedUrl, index) => {
+      try {
+        await processProvider(
+          seedUrl,
+          context,
+          sequencer.loggerFor(index),
+          () => sequencer.waitTurn(index),
+        );
+      } finally {
+        sequencer.complete(index);
+      }
+    });
+  } finally {
+    await browser?.close();
+    await state.flush();
+    await contentHashes.flush();
+    await aliases.flush();
+  }
+
+  const summary = summarizeRun(
+    {
+      startedAt,
+      mode: options.fromRaw ? "from-raw" : "crawl",
+      dryRun: options.dryRun,
+      llmBackend: llmBackend.name,
+    },
+    runnable
+      .map((seedUrl) => context.summaryRows.get(normalizeSlug(seedUrl)))
+      .filter((row): row is RunSummaryRow => Boolean(row)),
+  );
+  const summaryFile = await writeRunSummary(path.join(process.cwd(), RUN_REPORTS_DIR), summary);
+  console.log(`Run report: ${path.relative(process.cwd(), summaryFile)} (and .json)`);
+
+  const cacheStats = getLlmCacheStats();
+  console.log(
+    `LLM cache (${cacheStats.mode}): ${cacheStats.hits} hit(s), ${cacheStats.misses} miss(es), ${cacheStats.writes} write(s).`,
+  );
 
-    await upsertProviderRow(provider);
-    console.log(`Upserted ${slug}.`);
+  const failures = runnable
+    .map((seedUrl) => normalizeSlug(seedUrl))
+    .filter((slug) => state.get(slug)?.stage === "failed");
+  if (failures.length > 0) {
+    console.error(
+      `${failures.length} provider(s) failed: ${failures.join(", ")}. Rerun with --resume to retry them.`,
+    );
+    process.exitCode = 1;
   }
 };
 
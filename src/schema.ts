@@ -2,7 +2,7 @@ import { z } from "zod";
 
 import { ALLOWED_SERVICES } from "./services";
 
-export const PROVIDER_SCHEMA_VERSION = 1 as const;
+export const PROVIDER_SCHEMA_VERSION = 2 as const;
 
 const KEBAB_CASE_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
 const CURRENT_YEAR = new Date().getFullYear();
@@ -23,6 +23,7 @@ const AvailabilitySchema = z.enum(["yes", "limited", "no"]);
 const DataOriginSchema = z.enum(["seed", "provider_submitted", "researched"]);
 const EvidenceLevelSchema = z.enum(["none", "basic", "verified"]);
 const PublishStatusSchema = z.enum(["published", "hidden"]);
+const CountrySchema = z.enum(["DE", "AT", "CH"]);
 
 const ServiceSchema = z.enum(ALLOWED_SERVICES);
 
@@ -56,24 +57,30 @@ const LeadContactSchema = z.discriminatedUnion("type", [
   LeadContactPhoneSchema,
 ]);
 
-export const ProviderFrontmatterSchema = z
+/** The provider fields without cross-field rules; the base for the LLM response schema. */
+export const ProviderFieldsSchema = z
   .object({
     schema_version: z.literal(PROVIDER_SCHEMA_VERSION),
     name: z.string().min(2),
-    legal_name: z.string().max(120).optional(),
+    legal_name: z.string().max(120).optional().describe("Official legal entity name"),
     slug: z.string().min(3).regex(KEBAB_CASE_REGEX),
     website: z.string().url(),
     regions: z.array(RegionSchema).min(1),
     services: z.array(ServiceSchema).min(1),
-    primary_services: z.array(ServiceSchema).min(1).max(3),
-    short_description: z.string().max(200),
+    primary_services: z.array(ServiceSchema).min(1).max(3).describe("Subset of services"),
+    short_description: z
+      .string()
+      .max(200)
+      .describe(
+        "30-200 chars, neutral and customer-centered, no marketing language, no second-person phrasing",
+      ),
     languages: z.array(LanguageSchema).min(1),
     delivery_modes: z.array(DeliveryModeSchema).min(1),
     company_size_band: CompanySizeBandSchema,
     response_time_band: ResponseTimeBandSchema,
     lead_contact: LeadContactSchema,
     founded_year: z.number().int().min(1980).max(CURRENT_YEAR).optional(),
-    differentiator: z.string().max(120).optional(),
+    differentiator: z.string().max(120).optional().describe("Concrete and specific"),
     notable_references: z.array(z.string().max(80)).max(3).optional(),
     proof_source_urls: z.array(z.string().url()).max(3).optional(),
     industries: z.array(z.string().max(40)).max(8).optional(),
@@ -89,31 +96,39 @@ export const ProviderFrontmatterSchema = z
     evidence_level: EvidenceLevelSchema.optional().default("none"),
     publish_status: PublishStatusSchema.optional().default("published"),
     notes: z.string().max(240).optional(),
+    legal_form: z.string().max(40).optional(),
+    register_court: z.string().max(80).optional(),
+    register_number: z.string().max(40).optional(),
+    vat_id: z.string().max(40).optional(),
+    managing_directors: z.array(z.string().max(80)).max(8).optional(),
+    postal_address: z.string().max(160).optional(),
+    country: CountrySchema.optional(),
   })
-  .strict()
-  .superRefine((data, ctx) => {
-    const invalidPrimary = data.primary_services.filter(
-      (service) => !data.services.includes(service),
-    );
+  .strict();
+
+export const ProviderFrontmatterSchema = ProviderFieldsSchema.superRefine((data, ctx) => {
+  const invalidPrimary = data.primary_services.filter(
+    (service) => !data.services.includes(service),
+  );
+
+  if (invalidPrimary.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["primary_services"],
+      message: `primary_services must be a subset of services: ${invalidPrimary.join(", ")}`,
+    });
+  }
 
-    if (invalidPrimary.length > 0) {
+  if (data.publish_status === "published") {
+    if (data.short_description.trim().length < 30) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        path: ["primary_services"],
-        message: `primary_services must be a subset of services: ${invalidPrimary.join(", ")}`,
+        path: ["short_description"],
+        message: "short_description must be at least 30 characters when published",
       });
     }
-
-    if (data.publish_status === "published") {
-      if (data.short_description.trim().length < 30) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          path: ["short_description"],
-          message: "short_description must be at least 30 characters when published",
-        });
-      }
-    }
-  });
+  }
+});
 
 export type ProviderFrontmatter = z.infer<typeof ProviderFrontmatterSchema>;
 export type LeadContact = z.infer<typeof LeadContactSchema>;
@@ -0,0 +1,28 @@
+import { readFile, writeFile } from "fs/promises";
+
+export const PROVIDER_SEEDS_PATH = "seeds/providers.txt";
+export const BSI_APT_RESPONSE_LIST_PATH = "seeds/bsi-apt-response.txt";
+export const BSI_APT_RESPONSE_ALIVE_LIST_PATH = "seeds/bsi-apt-response-alive.txt";
+export const BSI_APT_RESPONSE_URL =
+  "https://www.bsi.bund.de/SharedDocs/Downloads/DE/BSI/Cyber-Sicherheit/Themen/Dienstleister_APT-Response-Liste.pdf?__blob=publicationFile&v=42";
+
+// Source lists whose reachable subset is regenerated by `yarn check-seeds`.
+export const ALIVE_SEED_LISTS: Record<string, string> = {
+  [BSI_APT_RESPONSE_LIST_PATH]: BSI_APT_RESPONSE_ALIVE_LIST_PATH,
+};
+
+const isSeedLine = (line: string): boolean => line.length > 0 && !line.startsWith("#");
+
+export const parseSeedFile = (content: string): string[] =>
+  content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(isSeedLine);
+
+export const loadSeeds = async (filePath: string): Promise<string[]> =>
+  parseSeedFile(await readFile(filePath, "utf8"));
+
+export const writeSeedFile = async (filePath: string, header: string[], urls: string[]) => {
+  const lines = [...header.map((line) => `# ${line}`), ...urls];
+  await writeFile(filePath, `${lines.join("\n")}\n`, "utf8");
+};
@@ -1,7 +1,8 @@
 import { google } from "googleapis";
 
+import { formatProvenanceCell, ProviderProvenance } from "./provenance";
 import { ProviderFrontmatter } from "./schema";
-import { joinComma, toBooleanString } from "./utils";
+import { joinComma, Logger, toBooleanString } from "./utils";
 
 export const EXPECTED_HEADERS = [
   "schema_version",
@@ -37,8 +38,65 @@ export const EXPECTED_HEADERS = [
   "data_origin",
   "evidence_level",
   "publish_status",
+  // Always present so SHEET_PROVENANCE_COLUMN does not shift the layout; empty unless enabled.
+  "provenance",
+  "legal_form",
+  "register_court",
+  "register_number",
+  "vat_id",
+  "managing_directors",
+  "postal_address",
+  "country",
+  "review_flags",
+  "locked",
 ] as const;
 
+export type SheetRowExtras = {
+  provenance?: ProviderProvenance;
+  review?: string[];
+};
+
+export type SheetColumn = (typeof EXPECTED_HEADERS)[number];
+
+export type SheetRowValues = Partial<Record<SheetColumn, string>>;
+
+export type ExistingSheetRow = {
+  rowNumber: number;
+  values: SheetRowValues;
+};
+
+export type SheetFieldChange = {
+  column: SheetColumn;
+  kind: "added" | "removed" | "changed";
+  before: string;
+  after: string;
+};
+
+export type MergePolicy = "overwrite" | "fill_if_empty" | "never_touch";
+
+/** A column where the sheet kept its value although the run produced a different one. */
+export type SheetConflict = {
+  column: SheetColumn;
+  kept: string;
+  rejected: string;
+  reason: string;
+};
+
+export type SheetRowPlan = {
+  existing?: ExistingSheetRow;
+  values: string[];
+  changes: SheetFieldChange[];
+  conflicts: SheetConflict[];
+};
+
+export type UpsertOptions = {
+  resolveProviderId?: (slug: string) => string;
+  logger?: Logger;
+  // A plan the editor confirmed with --diff; written as is instead of re-planning.
+  plan?: SheetRowPlan;
+  policies?: Record<SheetColumn, MergePolicy>;
+};
+
 const getServiceAccountCredentials = () => {
   const key = process.env.GOOGLE_SA_KEY_B64;
   if (!key) {
@@ -62,7 +120,86 @@ const columnToLetter = (column: number): string => {
   return result;
 };
 
-const providerToRow = (provider: ProviderFrontmatter): string[] => {
+export const MERGE_POLICIES: MergePolicy[] = ["overwrite", "fill_if_empty", "never_touch"];
+
+// Hand-written text and identity fields are what editors correct most; the run only
+// fills them while they are empty. Everything derived from the crawl is refreshed.
+const DEFAULT_MERGE_POLICIES: Partial<Record<SheetColumn, MergePolicy>> = {
+  name: "fill_if_empty",
+  legal_name: "fill_if_empty",
+  short_description: "fill_if_empty",
+  differentiator: "fill_if_empty",
+  lead_contact_type: "fill_if_empty",
+  lead_contact_value: "fill_if_empty",
+  lead_contact_notes: "fill_if_empty",
+  founded_year: "fill_if_empty",
+  is_fictional: "fill_if_empty",
+  data_origin: "fill_if_empty",
+  locked: "never_touch",
+};
+
+// Columns that are only meaningful together; fill_if_empty treats them as one cell.
+const MERGE_GROUPS: SheetColumn[][] = [["lead_contact_type", "lead_contact_value", "lead_contact_notes"]];
+
+// Bookkeeping columns the pipeline owns even on locked and provider-submitted rows.
+const UNLOCKABLE_COLUMNS: SheetColumn[] = ["schema_version", "slug", "notes", "provenance", "review_flags"];
+
+const LOCK_ALL_VALUES = ["true", "yes", "x", "all", "*"];
+
+/**
+ * Column policies: the defaults above, overridden by SHEET_MERGE_POLICIES, e.g.
+ * "services=fill_if_empty,publish_status=never_touch".
+ */
+export const getMergePolicies = (): Record<SheetColumn, MergePolicy> => {
+  const policies = Object.fromEntries(
+    EXPECTED_HEADERS.map((column) => [column, DEFAULT_MERGE_POLICIES[column] ?? "overwrite"]),
+  ) as Record<SheetColumn, MergePolicy>;
+  const configured = process.env.SHEET_MERGE_POLICIES?.trim();
+  if (!configured) {
+    return policies;
+  }
+  for (const entry of configured.split(",").map((value) => value.trim()).filter(Boolean)) {
+    const [column, policy] = entry.split("=").map((value) => value.trim());
+    if (!EXPECTED_HEADERS.includes(column as SheetColumn)) {
+      throw new Error(`SHEET_MERGE_POLICIES names unknown column "${column}".`);
+    }
+    if (!MERGE_POLICIES.includes(policy as MergePolicy)) {
+      throw new Error(
+        `SHEET_MERGE_POLICIES has unknown policy "${policy}" for ${column}. Use one of: ${MERGE_POLICIES.join(", ")}.`,
+      );
+    }
+    policies[column as SheetColumn] = policy as MergePolicy;
+  }
+  return policies;
+};
+
+/**
+ * Columns an editor has locked on this row. A `locked` cell of "true"/"x"/"all" locks
+ * every lockable column, otherwise it lists column names ("short_description, services").
+ * Rows with data_origin=provider_submitted are locked entirely.
+ */
+const getLockedColumns = (values: SheetRowValues): { columns: Set<SheetColumn>; reason: string } => {
+  const lockable = EXPECTED_HEADERS.filter((column) => !UNLOCKABLE_COLUMNS.includes(column));
+  if (values.data_origin?.trim() === "provider_submitted") {
+    return { columns: new Set(lockable), reason: "data_origin=provider_submitted" };
+  }
+  const marker = (values.locked ?? "").trim().toLowerCase();
+  if (!marker) {
+    return { columns: new Set(), reason: "" };
+  }
+  if (LOCK_ALL_VALUES.includes(marker)) {
+    return { columns: new Set(lockable), reason: "row locked" };
+  }
+  const listed = marker.split(/[,;\s]+/).filter((column): column is SheetColumn =>
+    lockable.includes(column as SheetColumn),
+  );
+  return { columns: new Set(listed), reason: "column locked" };
+};
+
+const isProvenanceColumnEnabled = (): boolean =>
+  process.env.SHEET_PROVENANCE_COLUMN === "true";
+
+const providerToRow = (provider: ProviderFrontmatter, extras: SheetRowExtras): string[] => {
   const map: Record<string, string> = {
     schema_version: provider.schema_version.toString(),
     name: provider.name,
@@ -97,12 +234,32 @@ const providerToRow = (provider: ProviderFrontmatter): string[] => {
     data_origin: provider.data_origin ?? "seed",
     evidence_level: provider.evidence_level ?? "none",
     publish_status: provider.publish_status ?? "published",
+    provenance:
+      isProvenanceColumnEnabled() && extras.provenance
+        ? formatProvenanceCell(extras.provenance)
+        : "",
+    legal_form: provider.legal_form ?? "",
+    register_court: provider.register_court ?? "",
+    register_number: provider.register_number ?? "",
+    vat_id: provider.vat_id ?? "",
+    managing_directors: joinComma(provider.managing_directors),
+    postal_address: provider.postal_address ?? "",
+    country: provider.country ?? "",
+    review_flags: (extras.review ?? []).join("; "),
+    locked: "",
   };
 
   return EXPECTED_HEADERS.map((header) => map[header] ?? "");
 };
 
-export const upsertProviderRow = async (provider: ProviderFrontmatter) => {
+type SheetConnection = {
+  sheets: ReturnType<typeof google.sheets>;
+  sheetId: string;
+  sheetTab: string;
+  lastColumn: string;
+};
+
+const connectSheet = (): SheetConnection => {
   const sheetId = process.env.GOOGLE_SHEET_ID;
   const sheetTab = process.env.GOOGLE_SHEET_TAB || "providers";
   if (!sheetId) {
@@ -116,21 +273,206 @@ export const upsertProviderRow = async (provider: ProviderFrontmatter) => {
     scopes: ["https://www.googleapis.com/auth/spreadsheets"],
   });
 
-  const sheets = google.sheets({ version: "v4", auth });
-  const lastColumn = columnToLetter(EXPECTED_HEADERS.length);
-  const headerValues = Array.from(EXPECTED_HEADERS);
+  return {
+    sheets: google.sheets({ version: "v4", auth }),
+    sheetId,
+    sheetTab,
+    lastColumn: columnToLetter(EXPECTED_HEADERS.length),
+  };
+};
 
-  const headerRange = `${sheetTab}!A1:${lastColumn}1`;
+const readHeaders = async ({ sheets, sheetId, sheetTab, lastColumn }: SheetConnection): Promise<string[]> => {
   const headerResponse = await sheets.spreadsheets.values.get({
     spreadsheetId: sheetId,
-    range: headerRange,
+    range: `${sheetTab}!A1:${lastColumn}1`,
+  });
+  return (headerResponse.data.values?.[0] ?? []).map(String);
+};
+
+const readDataRows = async ({ sheets, sheetId, sheetTab, lastColumn }: SheetConnection): Promise<string[][]> => {
+  const dataResponse = await sheets.spreadsheets.values.get({
+    spreadsheetId: sheetId,
+    range: `${sheetTab}!A2:${lastColumn}`,
+  });
+  return (dataResponse.data.values ?? []).map((row) => row.map((value) => String(value ?? "")));
+};
+
+// Rows written under a former slug belong to the same provider and are updated in place.
+const findProviderRowIndex = (
+  rows: string[][],
+  slugIndex: number,
+  providerSlug: string,
+  options: UpsertOptions,
+): { index: number; matchingIndexes: number[] } => {
+  const resolveProviderId = options.resolveProviderId ?? ((slug: string) => slug);
+  const matchingIndexes = rows
+    .map((row, index) => ({ slug: row[slugIndex] ?? "", index }))
+    .filter(({ slug }) => slug.length > 0 && resolveProviderId(slug) === providerSlug)
+    .map(({ index }) => index);
+  const exactIndex = rows.findIndex((row) => row[slugIndex] === providerSlug);
+  return { index: exactIndex >= 0 ? exactIndex : matchingIndexes[0] ?? -1, matchingIndexes };
+};
+
+// Columns are located by the sheet's own header row, so rows written with an older
+// column layout are still read correctly.
+const findExistingRow = (
+  headers: string[],
+  rows: string[][],
+  providerSlug: string,
+  options: UpsertOptions,
+): { existing?: ExistingSheetRow; matchingIndexes: number[] } => {
+  const slugIndex = headers.includes("slug") ? headers.indexOf("slug") : EXPECTED_HEADERS.indexOf("slug");
+  const { index, matchingIndexes } = findProviderRowIndex(rows, slugIndex, providerSlug, options);
+  if (index < 0) {
+    return { matchingIndexes };
+  }
+  const values: SheetRowValues = {};
+  for (const header of EXPECTED_HEADERS) {
+    const column = headers.indexOf(header);
+    if (column >= 0) {
+      values[header] = rows[index][column] ?? "";
+    }
+  }
+  return { existing: { rowNumber: index + 2, values }, matchingIndexes };
+};
+
+/** Reads the provider's current sheet row, keyed by column name; undefined if it has none. */
+export const readProviderRow = async (
+  providerSlug: string,
+  options: UpsertOptions = {},
+): Promise<ExistingSheetRow | undefined> => {
+  const connection = connectSheet();
+  const headers = await readHeaders(connection);
+  const rows = await readDataRows(connection);
+  return findExistingRow(headers, rows, providerSlug, options).existing;
+};
+
+/**
+ * Merges the run's values into the existing row column by column and returns the row
+ * to write, the field-level changes against the sheet, and the conflicts where the
+ * sheet's value was kept. New rows get every column except never_touch ones.
+ */
+export const planProviderRow = (
+  existing: ExistingSheetRow | undefined,
+  provider: ProviderFrontmatter,
+  extras: SheetRowExtras = {},
+  policies: Record<SheetColumn, MergePolicy> = getMergePolicies(),
+): SheetRowPlan => {
+  const next = providerToRow(provider, extras);
+  const current = existing?.values ?? {};
+  const locks = getLockedColumns(current);
+  const changes: SheetFieldChange[] = [];
+  const conflicts: SheetConflict[] = [];
+
+  const values = EXPECTED_HEADERS.map((column, index) => {
+    const before = current[column] ?? "";
+    const proposed = next[index];
+    const policy = policies[column];
+    const group = MERGE_GROUPS.find((columns) => columns.includes(column)) ?? [column];
+    const isEmpty = group.every((member) => !(current[member] ?? "").trim());
+    let value: string;
+    let reason: string;
+    if (locks.columns.has(column)) {
+      value = before;
+      reason = locks.reason;
+    } else if (policy === "never_touch") {
+      value = before;
+      reason = "never_touch";
+    } else if (policy === "fill_if_empty" && existing && !isEmpty) {
+      value = before;
+      reason = "fill_if_empty";
+    } else {
+      value = proposed;
+      reason = "";
+    }
+
+    // Keeping a value the run has nothing to replace with is not a conflict.
+    if (value === before && proposed !== before && before !== "" && proposed !== "") {
+      conflicts.push({ column, kept: before, rejected: proposed, reason });
+    }
+    if (value !== before) {
+      const kind = before === "" ? "added" : value === "" ? "removed" : "changed";
+      changes.push({ column, kind, before, after: value });
+    }
+    return value;
+  });
+
+  return { existing, values, changes, conflicts };
+};
+
+export const formatSheetConflict = (conflict: SheetConflict): string =>
+  `${conflict.column} kept ${JSON.stringify(conflict.kept)} over ${JSON.stringify(conflict.rejected)} (${conflict.reason})`;
+
+const DIFF_SYMBOLS: Record<SheetFieldChange["kind"], string> = { added: "+", removed: "-", changed: "~" };
+
+/**
+ * Renders a diff for the console. Columns filled from a normalization default are
+ * tagged, since replacing a researched value with a default is usually a regression.
+ * Conflicts list the values the sheet kept over the run's.
+ */
+export const formatSheetDiff = (
+  providerSlug: string,
+  plan: SheetRowPlan,
+  defaultedFields: string[] = [],
+): string => {
+  const target = plan.existing ? `row ${plan.existing.rowNumber}` : "new row";
+  const conflictLines = plan.conflicts.map((conflict) => `  ! ${formatSheetConflict(conflict)}`);
+  if (plan.changes.length === 0) {
+    return [`No sheet changes for ${providerSlug} (${target}).`, ...conflictLines].join("\n");
+  }
+  const lines = plan.changes.map((change) => {
+    const defaulted = defaultedFields.some(
+      (field) => change.column === field || change.column.startsWith(`${field}_`),
+    );
+    const tag = defaulted && change.kind !== "removed" ? " [defaulted]" : "";
+    const value =
+      change.kind === "added"
+        ? JSON.stringify(change.after)
+        : change.kind === "removed"
+          ? JSON.stringify(change.before)
+          : `${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`;
+    return `  ${DIFF_SYMBOLS[change.kind]} ${change.column}: ${value}${tag}`;
   });
+  return [
+    `Sheet changes for ${providerSlug} (${target}, ${plan.changes.length} column(s)):`,
+    ...lines,
+    ...conflictLines,
+  ].join("\n");
+};
+
+/**
+ * Writes the provider's row, merged with the current one by column policy (see
+ * planProviderRow). Returns the plan so callers can report changes and conflicts.
+ */
+export const upsertProviderRow = async (
+  provider: ProviderFrontmatter,
+  extras: SheetRowExtras = {},
+  options: UpsertOptions = {},
+): Promise<SheetRowPlan> => {
+  const connection = connectSheet();
+  const { sheets, sheetId, sheetTab, lastColumn } = connection;
+  const headerValues = Array.from(EXPECTED_HEADERS);
+
+  const headerRange = `${sheetTab}!A1:${lastColumn}1`;
+  const existingHeaders = await readHeaders(connection);
+  const planRow = async (): Promise<SheetRowPlan> => {
+    const rows = await readDataRows(connection);
+    const { existing, matchingIndexes } = findExistingRow(existingHeaders, rows, provider.slug, options);
+    if (matchingIndexes.length > 1 && existing) {
+      (options.logger ?? console).warn(
+        `Sheet has ${matchingIndexes.length} rows for ${provider.slug} (rows ${matchingIndexes
+          .map((index) => index + 2)
+          .join(", ")}); updating row ${existing.rowNumber}, remove the others by hand.`,
+      );
+    }
+    return planProviderRow(existing, provider, extras, options.policies);
+  };
+  const plan = options.plan ?? (await planRow());
+  const { existing } = plan;
 
-  const existingHeaders = headerResponse.data.values?.[0] ?? [];
   const headersMatch =
     existingHeaders.length === EXPECTED_HEADERS.length &&
     existingHeaders.every((value, index) => value === EXPECTED_HEADERS[index]);
-
   if (!headersMatch) {
     await sheets.spreadsheets.values.update({
       spreadsheetId: sheetId,
@@ -142,37 +484,29 @@ export const upsertProviderRow = async (provider: ProviderFrontmatter) => {
     });
   }
 
-  const dataRange = `${sheetTab}!A2:${lastColumn}`;
-  const dataResponse = await sheets.spreadsheets.values.get({
-    spreadsheetId: sheetId,
-    range: dataRange,
-  });
-
-  const rows = dataResponse.data.values ?? [];
-  const slugIndex = EXPECTED_HEADERS.indexOf("slug");
-  const rowValues = providerToRow(provider);
-  const existingIndex = rows.findIndex((row) => row[slugIndex] === provider.slug);
-
-  if (existingIndex >= 0) {
-    const rowNumber = existingIndex + 2;
-    const updateRange = `${sheetTab}!A${rowNumber}:${lastColumn}${rowNumber}`;
-    await sheets.spreadsheets.values.update({
-      spreadsheetId: sheetId,
-      range: updateRange,
-      valueInputOption: "RAW",
-      requestBody: {
-        values: [rowValues],
-      },
-    });
+  if (existing) {
+    // A row in an older column layout is rewritten even without changes so it lines up with the headers.
+    if (plan.changes.length > 0 || !headersMatch) {
+      const updateRange = `${sheetTab}!A${existing.rowNumber}:${lastColumn}${existing.rowNumber}`;
+      await sheets.spreadsheets.values.update({
+        spreadsheetId: sheetId,
+        range: updateRange,
+        valueInputOption: "RAW",
+        requestBody: {
+          values: [plan.values],
+        },
+      });
+    }
   } else {
     await sheets.spreadsheets.values.append({
       spreadsheetId: sheetId,
-      range: dataRange,
+      range: `${sheetTab}!A2:${lastColumn}`,
       valueInputOption: "RAW",
       insertDataOption: "INSERT_ROWS",
       requestBody: {
-        values: [rowValues],
+        values: [plan.values],
       },
     });
   }
+  return plan;
 };
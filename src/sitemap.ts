@@ -0,0 +1,212 @@
+import { gunzipSync } from "zlib";
+
+import { getRobotsPolicy, politeFetch } from "./robots";
+import { dedupe } from "./utils";
+
+export type SitemapAlternate = {
+  hreflang: string;
+  href: string;
+};
+
+export type SitemapEntry = {
+  loc: string;
+  lastmod?: string;
+  alternates: SitemapAlternate[];
+};
+
+type SitemapDocument = {
+  kind: "index" | "urlset";
+  entries: SitemapEntry[];
+};
+
+const DEFAULT_SITEMAP_PATHS = [
+  "/sitemap.xml",
+  "/sitemap_index.xml",
+  "/wp-sitemap.xml",
+  "/sitemap.xml.gz",
+];
+const MAX_SITEMAP_DOCUMENTS = 25;
+const MAX_SITEMAP_DEPTH = 3;
+const MAX_SITEMAP_ENTRIES = 5000;
+const MAX_SITEMAP_BYTES = 20 * 1024 * 1024;
+const SITEMAP_TIMEOUT_MS = 15000;
+
+// Child sitemaps that usually list company pages rather than blog posts or shop items.
+const PREFERRED_CHILD_HINTS = ["page", "seite", "main", "default", "pages"];
+const DEPRIORITIZED_CHILD_HINTS = [
+  "post",
+  "news",
+  "blog",
+  "product",
+  "tag",
+  "category",
+  "author",
+  "attachment",
+  "image",
+];
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+const readTag = (block: string, tag: string): string | undefined => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "i");
+  const match = block.match(pattern);
+  return match?.[1] ? decodeXml(match[1]) : undefined;
+};
+
+const readAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return match?.[1] ? decodeXml(match[1]) : undefined;
+};
+
+const readAlternates = (block: string): SitemapAlternate[] => {
+  const alternates: SitemapAlternate[] = [];
+  for (const match of block.matchAll(/<(?:[\w-]+:)?link\b[^>]*>/gi)) {
+    const tag = match[0];
+    if (readAttribute(tag, "rel")?.toLowerCase() !== "alternate") {
+      continue;
+    }
+    const hreflang = readAttribute(tag, "hreflang");
+    const href = readAttribute(tag, "href");
+    if (hreflang && href) {
+      alternates.push({ hreflang: hreflang.toLowerCase(), href });
+    }
+  }
+  return alternates;
+};
+
+export const parseSitemap = (xml: string): SitemapDocument => {
+  const isIndex = /<(?:[\w-]+:)?sitemapindex\b/i.test(xml);
+  const blockTag = isIndex ? "sitemap" : "url";
+  const entries: SitemapEntry[] = [];
+  const blockPattern = new RegExp(
+    `<(?:[\\w-]+:)?${blockTag}>([\\s\\S]*?)</(?:[\\w-]+:)?${blockTag}>`,
+    "gi",
+  );
+  for (const match of xml.matchAll(blockPattern)) {
+    const block = match[1] ?? "";
+    const loc = readTag(block, "loc");
+    if (!loc) {
+      continue;
+    }
+    entries.push({
+      loc,
+      lastmod: readTag(block, "lastmod"),
+      alternates: isIndex ? [] : readAlternates(block),
+    });
+  }
+  return { kind: isIndex ? "index" : "urlset", entries };
+};
+
+const isGzip = (bytes: Buffer): boolean =>
+  bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const fetchSitemapDocument = async (url: string): Promise<SitemapDocument | null> => {
+  try {
+    const response = await politeFetch(url, { signal: AbortSignal.timeout(SITEMAP_TIMEOUT_MS) });
+    if (!response?.ok) {
+      return null;
+    }
+    const raw = Buffer.from(await response.arrayBuffer());
+    if (raw.length > MAX_SITEMAP_BYTES) {
+      return null;
+    }
+    // Servers often send .xml.gz without Content-Encoding, so fetch does not inflate it.
+    const bytes = isGzip(raw) ? gunzipSync(raw, { maxOutputLength: MAX_SITEMAP_BYTES }) : raw;
+    const xml = bytes.toString("utf8");
+    if (!/<(?:[\w-]+:)?(?:urlset|sitemapindex)\b/i.test(xml)) {
+      return null;
+    }
+    return parseSitemap(xml);
+  } catch {
+    return null;
+  }
+};
+
+const rankChildSitemap = (entry: SitemapEntry): number => {
+  const lower = entry.loc.toLowerCase();
+  let rank = 0;
+  if (PREFERRED_CHILD_HINTS.some((hint) => lower.includes(hint))) {
+    rank += 2;
+  }
+  if (DEPRIORITIZED_CHILD_HINTS.some((hint) => lower.includes(hint))) {
+    rank -= 2;
+  }
+  return rank;
+};
+
+const compareLastmodDesc = (a: SitemapEntry, b: SitemapEntry): number =>
+  (Date.parse(b.lastmod ?? "") || 0) - (Date.parse(a.lastmod ?? "") || 0);
+
+type SitemapWalk = {
+  visited: Set<string>;
+  entries: Map<string, SitemapEntry>;
+};
+
+// Breadth-first walk from the given roots; returns how many sitemap documents were read.
+const walkSitemaps = async (roots: string[], walk: SitemapWalk): Promise<number> => {
+  const queue = roots.map((url) => ({ url, depth: 0 }));
+  let documents = 0;
+  while (
+    queue.length > 0 &&
+    walk.visited.size < MAX_SITEMAP_DOCUMENTS &&
+    walk.entries.size < MAX_SITEMAP_ENTRIES
+  ) {
+    const next = queue.shift();
+    if (!next || walk.visited.has(next.url)) {
+      continue;
+    }
+    walk.visited.add(next.url);
+
+    const document = await fetchSitemapDocument(next.url);
+    if (!document) {
+      continue;
+    }
+    documents += 1;
+
+    if (document.kind === "index") {
+      if (next.depth + 1 < MAX_SITEMAP_DEPTH) {
+        const children = [...document.entries].sort(
+          (a, b) => rankChildSitemap(b) - rankChildSitemap(a) || compareLastmodDesc(a, b),
+        );
+        queue.push(...children.map((child) => ({ url: child.loc, depth: next.depth + 1 })));
+      }
+      continue;
+    }
+
+    for (const entry of document.entries) {
+      if (!walk.entries.has(entry.loc)) {
+        walk.entries.set(entry.loc, entry);
+      }
+    }
+  }
+  return documents;
+};
+
+/**
+ * Collects page entries for an origin from the sitemaps declared in robots.txt,
+ * falling back to the common default locations when none are declared or readable.
+ * Sitemap indexes are followed (page sitemaps first) and gzip files are inflated.
+ */
+export const loadSitemapEntries = async (origin: string): Promise<SitemapEntry[]> => {
+  const policy = await getRobotsPolicy(origin);
+  const walk: SitemapWalk = { visited: new Set(), entries: new Map() };
+
+  const declaredDocuments = await walkSitemaps(dedupe(policy.sitemaps), walk);
+  if (declaredDocuments === 0) {
+    for (const pathEntry of DEFAULT_SITEMAP_PATHS) {
+      if ((await walkSitemaps([new URL(pathEntry, origin).toString()], walk)) > 0) {
+        break;
+      }
+    }
+  }
+
+  return Array.from(walk.entries.values());
+};
@@ -0,0 +1,58 @@
+import { strict as assert } from "assert";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+
+import { createProviderAliasStore, toAliasKey } from "./aliases";
+
+export const smokeAliases = async () => {
+  assert.equal(toAliasKey("https://www.Muster-Security.de/kontakt"), "muster-security-de");
+  assert.equal(toAliasKey("muster-security.de"), "muster-security-de");
+  assert.equal(toAliasKey(" Muster-Security-De "), "muster-security-de");
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), "provider-aliases-"));
+  const filePath = path.join(dir, "provider-aliases.json");
+  try {
+    await writeFile(
+      filePath,
+      JSON.stringify({
+        "muster-security-de": ["muster-security-gmbh", "shared-hosting.de"],
+        "nord-forensik-de": ["shared-hosting.de"],
+      }),
+    );
+    const aliases = await createProviderAliasStore(filePath, { readOnly: false });
+
+    // A former slug resolves to the stable ID; a host listed twice belongs to the first provider.
+    assert.equal(aliases.resolve("muster-security-gmbh"), "muster-security-de");
+    assert.equal(aliases.resolve("https://shared-hosting.de/"), "muster-security-de");
+    assert.equal(aliases.resolve("unknown-provider-de"), "unknown-provider-de");
+
+    // A seed that redirects to a known provider's new host joins that provider.
+    assert.deepEqual(aliases.identify("https://muster-security.com", "https://www.muster-security.de"), {
+      providerId: "muster-security-de",
+      canonicalOrigin: "https://www.muster-security.de",
+    });
+    assert.equal(aliases.resolve("muster-security-com"), "muster-security-de");
+    // After a move, the new host is recorded under the existing ID.
+    assert.equal(
+      aliases.identify("https://nord-forensik.de", "https://nordforensik.com").providerId,
+      "nord-forensik-de",
+    );
+    assert.equal(aliases.resolve("nordforensik.com"), "nord-forensik-de");
+    // A new provider gets its seed slug and needs no entry while its host matches it.
+    assert.equal(aliases.identify("https://neu-security.de", "https://neu-security.de").providerId, "neu-security-de");
+
+    await aliases.flush();
+    assert.deepEqual(JSON.parse(await readFile(filePath, "utf8")), {
+      "muster-security-de": ["muster-security-gmbh", "shared-hosting.de", "muster-security.com"],
+      "nord-forensik-de": ["shared-hosting.de", "nordforensik.com"],
+    });
+
+    const readOnly = await createProviderAliasStore(filePath, { readOnly: true });
+    readOnly.identify("https://other-provider.de", "https://other-provider.de");
+    await readOnly.flush();
+    assert.ok(!(await readFile(filePath, "utf8")).includes("other-provider"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
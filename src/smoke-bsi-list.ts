@@ -0,0 +1,74 @@
+import { strict as assert } from "assert";
+
+import { diffSeeds, parseBsiProviderList, resolveSeeds } from "./bsi-list";
+import { Logger } from "./utils";
+
+// Layout of the BSI list after text extraction: headers, multi-line names, addresses
+// and contact details in varying order.
+const LIST_TEXT = [
+  "Qualifizierte APT-Response-Dienstleister",
+  "Seite 1 von 2",
+  "Muster Security",
+  "GmbH",
+  "Musterstraße 12",
+  "10115 Berlin",
+  "Tel.: +49 30 1234567",
+  "www.muster-security.de",
+  "Nord Forensik AG",
+  "E-Mail: kontakt@nord-forensik.de",
+  "Webseite: https://nord-forensik.de/incident-response/#apt",
+  "Muster Security GmbH (Niederlassung Süd)",
+  "https://muster-security.de/",
+  "Beispiel IT-Forensik AG",
+  "info@beispiel-forensik.com",
+].join("\n");
+
+export const smokeBsiList = () => {
+  const rows = parseBsiProviderList(LIST_TEXT);
+  assert.deepEqual(rows, [
+    { name: "Muster Security GmbH", website: "www.muster-security.de", contact: "+49 30 1234567" },
+    {
+      name: "Nord Forensik AG",
+      website: "https://nord-forensik.de/incident-response/#apt",
+      contact: "kontakt@nord-forensik.de",
+    },
+    { name: "Muster Security GmbH (Niederlassung Süd)", website: "https://muster-security.de/", contact: undefined },
+    { name: "Beispiel IT-Forensik AG", website: undefined, contact: "info@beispiel-forensik.com" },
+  ]);
+
+  const skipped: string[] = [];
+  const logger: Logger = { log: () => undefined, warn: (message) => skipped.push(message), error: () => undefined };
+  const seeds = resolveSeeds(
+    [
+      ...rows,
+      { name: "Einzelberater Schmidt", contact: "schmidt.it@gmail.com" },
+      { name: "BSI", website: "https://www.bsi.bund.de/apt-response" },
+    ],
+    logger,
+  );
+  // Bare hosts get https, fragments are dropped, a second branch of the same company is
+  // deduplicated by slug, and a non-freemail e-mail domain stands in for a missing website.
+  assert.deepEqual(
+    seeds.map((seed) => seed.url),
+    [
+      "https://www.muster-security.de/",
+      "https://nord-forensik.de/incident-response/",
+      "https://beispiel-forensik.com/",
+    ],
+  );
+  assert.deepEqual(skipped, [
+    'Skipping "Einzelberater Schmidt": no usable website.',
+    'Skipping "BSI": no usable website.',
+  ]);
+
+  assert.deepEqual(
+    diffSeeds(
+      ["https://muster-security.de", "https://alt-provider.de/", "not a url"],
+      seeds.map((seed) => seed.url),
+    ),
+    {
+      added: ["https://nord-forensik.de/incident-response/", "https://beispiel-forensik.com/"],
+      removed: ["https://alt-provider.de/", "not a url"],
+    },
+  );
+};
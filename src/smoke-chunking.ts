@@ -0,0 +1,75 @@
+import { strict as assert } from "assert";
+
+import { CandidateRecord, mergeCandidates, planExtractionChunks } from "./chunking";
+import type { CrawledPage } from "./crawl";
+
+const page = (key: string, characters: number, discoveryReason?: string): CrawledPage => ({
+  key,
+  url: `https://example.com/${key}`,
+  status: 200,
+  text: `${key} `.padEnd(characters, "x"),
+  discoveryReason,
+});
+
+export const smokeChunking = () => {
+  // 1000 tokens per chunk at four characters per token.
+  const plan = planExtractionChunks(
+    [
+      page("discovered-1", 2000, "blog"),
+      page("discovered-2", 2000, "services"),
+      page("external-1", 1000, "external-proof"),
+      page("home", 2000),
+      page("impressum", 6000),
+    ],
+    (entry) => entry.text,
+    1000,
+  );
+  assert.deepEqual(
+    plan.chunks.map((chunk) => chunk.pageKeys),
+    [["home"], ["impressum"], ["discovered-2", "discovered-1"], ["external-1"]],
+  );
+  assert.ok(plan.chunks.every((chunk) => chunk.tokens <= 1000));
+  assert.equal(plan.chunks[3].externalSections.length, 1);
+  assert.deepEqual(plan.trimmedPages, ["impressum"]);
+  assert.ok(plan.chunks[1].officialSections[0].endsWith(" [...]"));
+  assert.deepEqual(plan.droppedPages, []);
+
+  // At most six chunks; the lowest-ranked pages that no longer fit are dropped.
+  const crowded = planExtractionChunks(
+    Array.from({ length: 8 }, (_, index) => page(`discovered-${index + 1}`, 3000)),
+    (entry) => entry.text,
+    1000,
+  );
+  assert.equal(crowded.chunks.length, 6);
+  assert.deepEqual(crowded.droppedPages, ["discovered-7", "discovered-8"]);
+
+  const merged = mergeCandidates<CandidateRecord>([
+    {
+      name: "Muster Security",
+      founded_year: 2009,
+      services: ["Pentest"],
+      emergency_24_7: false,
+      notes: "Part one.",
+      provenance: { name: { url: "https://example.com/home", quote: "Muster Security" } },
+    },
+    {
+      name: "Muster Sec",
+      founded_year: 2010,
+      services: ["Pentest", "Incident Response"],
+      emergency_24_7: true,
+      provenance: {
+        founded_year: { url: "https://example.com/about", quote: "seit 2010" },
+        emergency_24_7: { url: "https://example.com/about", quote: "24/7" },
+      },
+    },
+  ]);
+  assert.equal(merged.name, "Muster Security");
+  assert.equal(merged.founded_year, 2009);
+  assert.deepEqual(merged.services, ["Pentest", "Incident Response"]);
+  assert.equal(merged.emergency_24_7, true);
+  assert.deepEqual(Object.keys(merged.provenance ?? {}), ["name", "emergency_24_7"]);
+  assert.equal(
+    merged.notes,
+    "Part one. Page chunks disagreed (name: kept Muster Security over Muster Sec; founded_year: kept 2009 over 2010).",
+  );
+};
@@ -0,0 +1,54 @@
+import { strict as assert } from "assert";
+
+import type { CandidateRecord } from "./chunking";
+import { buildConsensus, formatDisagreement, getEnsembleModels } from "./consensus";
+
+export const smokeConsensus = () => {
+  const previous = process.env.LLM_ENSEMBLE_MODELS;
+  process.env.LLM_ENSEMBLE_MODELS = " model-b, model-c ,model-b,";
+  try {
+    assert.deepEqual(getEnsembleModels(), ["model-b", "model-c"]);
+  } finally {
+    if (previous === undefined) {
+      delete process.env.LLM_ENSEMBLE_MODELS;
+    } else {
+      process.env.LLM_ENSEMBLE_MODELS = previous;
+    }
+  }
+
+  const { candidate, disagreements } = buildConsensus<CandidateRecord>([
+    {
+      label: "model-a",
+      candidate: {
+        name: "Muster Security",
+        short_description: "Penetration tests for mid-sized companies.",
+        company_size_band: "11-50",
+        founded_year: 2009,
+        services: ["Pentest", "Incident Response"],
+      },
+    },
+    {
+      label: "model-b",
+      candidate: {
+        name: "Muster Security GmbH",
+        short_description: "Security tests.",
+        company_size_band: "11-50",
+        founded_year: 2010,
+        services: ["incident response", "Cloud Security"],
+      },
+    },
+  ]);
+  // Agreement keeps the value; disputed required fields fall back to the primary model,
+  // disputed optional ones are dropped and lists keep the shared items.
+  assert.deepEqual(candidate, {
+    name: "Muster Security",
+    short_description: "Penetration tests for mid-sized companies.",
+    company_size_band: "11-50",
+    services: ["Incident Response"],
+  });
+  assert.deepEqual(
+    disagreements.map((disagreement) => disagreement.field),
+    ["name", "founded_year", "services"],
+  );
+  assert.equal(formatDisagreement(disagreements[1]), "founded_year: model-a=2009 / model-b=2010");
+};
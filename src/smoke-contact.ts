@@ -0,0 +1,38 @@
+import { strict as assert } from "assert";
+
+import { inferContactCountry, parseContactChannels, toE164 } from "./contact";
+
+export const smokeContact = () => {
+  assert.equal(toE164("+49 (0) 7131 / 123 456"), "+497131123456");
+  assert.equal(toE164("0049 7131 123456"), "+497131123456");
+  assert.equal(toE164("07131 123456", "DE"), "+497131123456");
+  assert.equal(toE164("01 234 56 78", "AT"), "+4312345678");
+  assert.equal(toE164("044 123 45 67", "CH"), "+41441234567");
+  // National numbers without a known country, and implausible lengths, are left out.
+  assert.equal(toE164("07131 123456"), undefined);
+  assert.equal(toE164("+49 123"), undefined);
+
+  assert.equal(inferContactCountry("https://www.example.at/kontakt"), "AT");
+  assert.equal(inferContactCountry("https://example.com/"), undefined);
+
+  assert.deepEqual(
+    parseContactChannels({
+      mailto: ["mailto:Info@Example.de?subject=Anfrage", "mailto:info@example.de", "mailto:not-an-address"],
+      tel: ["tel:+49%207131%20123456", "tel:110"],
+      forms: [
+        { inputTypes: ["search"], inputNames: ["q"], hasTextarea: false },
+        { inputTypes: ["email", "submit"], inputNames: ["newsletter"], hasTextarea: false },
+      ],
+    }),
+    { emails: ["info@example.de"], phones: ["+49 7131 123456"], hasContactForm: false },
+  );
+  assert.equal(
+    parseContactChannels({
+      mailto: [],
+      tel: [],
+      forms: [{ inputTypes: ["text", "email", "hidden"], inputNames: ["name", "email"], hasTextarea: true }],
+    })?.hasContactForm,
+    true,
+  );
+  assert.equal(parseContactChannels({ mailto: [], tel: [], forms: [] }), undefined);
+};
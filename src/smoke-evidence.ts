@@ -0,0 +1,29 @@
+import { strict as assert } from "assert";
+
+import { createEvidenceIndex, hasLiteralEvidence, partitionByEvidence, verifyFoundedYear } from "./evidence";
+
+export const smokeEvidence = () => {
+  const index = createEvidenceIndex(
+    "Die Muster Sicherheit GmbH aus München wurde 2009 gegründet. Zertifiziert nach ISO/IEC 27001:2022. Telefon 2015.",
+  );
+
+  // Umlaut spellings, case and punctuation do not matter; one typo in a long word is fine.
+  assert.equal(hasLiteralEvidence(index, "Muenchen"), true);
+  assert.equal(hasLiteralEvidence(index, "Munchen"), true);
+  assert.equal(hasLiteralEvidence(index, "muster sicherheit gmbh"), true);
+  assert.equal(hasLiteralEvidence(index, "Muster Sicherheyt GmbH"), true);
+  assert.equal(hasLiteralEvidence(index, "ISO 27001"), true);
+  // Numbers must match exactly.
+  assert.equal(hasLiteralEvidence(index, "ISO 27002"), false);
+  assert.equal(hasLiteralEvidence(index, "TISAX"), false);
+  assert.equal(hasLiteralEvidence(index, ""), false);
+
+  assert.deepEqual(partitionByEvidence(index, ["ISO 27001", "BSI C5"]), {
+    supported: ["ISO 27001"],
+    unsupported: ["BSI C5"],
+  });
+
+  assert.equal(verifyFoundedYear(index, 2009).status, "supported");
+  assert.equal(verifyFoundedYear(index, 2015).status, "weak");
+  assert.equal(verifyFoundedYear(index, 2001).status, "missing");
+};
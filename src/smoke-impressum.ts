@@ -0,0 +1,48 @@
+import { strict as assert } from "assert";
+
+import { parseImpressum } from "./impressum";
+
+export const smokeImpressum = () => {
+  // Sentence dots after the last value must not end up in it.
+  assert.deepEqual(
+    parseImpressum(
+      "Angaben gemäß § 5 ECG: Muster IT GmbH, Hauptstraße 5, 1010 Wien. Firmenbuchgericht: Handelsgericht Wien. FN 123456a. Geschäftsführer: Hans Huber. UID: ATU12345678",
+    ),
+    {
+      legalName: "Muster IT GmbH",
+      legalForm: "GmbH",
+      registerCourt: "Handelsgericht Wien",
+      registerNumber: "FN 123456a",
+      vatId: "ATU12345678",
+      managingDirectors: ["Hans Huber"],
+      postalAddress: "Hauptstraße 5, 1010 Wien",
+      country: "AT",
+    },
+  );
+
+  // Dots that belong to abbreviations and titles stay.
+  const german = parseImpressum(
+    "Beispiel Security GmbH & Co. KG, Amtsgericht Freiburg i. Br. HRB 1234. Vertreten durch die Geschäftsführer: Dr. Anna Meier und Prof. Karl Otto. USt-IdNr.: DE 123 456 789",
+  );
+  assert.equal(german.legalName, "Beispiel Security GmbH & Co. KG");
+  assert.equal(german.registerCourt, "Amtsgericht Freiburg i. Br.");
+  assert.equal(german.registerNumber, "HRB 1234");
+  assert.equal(german.vatId, "DE123456789");
+  assert.deepEqual(german.managingDirectors, ["Dr. Anna Meier", "Prof. Karl Otto"]);
+  assert.equal(german.country, "DE");
+
+  const swiss = parseImpressum("Handelsregister des Kantons Zürich. UID: CHE-123.456.789");
+  assert.equal(swiss.registerCourt, "Handelsregisteramt des Kantons Zürich");
+  assert.equal(swiss.country, "CH");
+
+  assert.deepEqual(parseImpressum("Willkommen auf unserer Website."), {
+    legalName: undefined,
+    legalForm: undefined,
+    registerCourt: undefined,
+    registerNumber: undefined,
+    vatId: undefined,
+    managingDirectors: [],
+    postalAddress: undefined,
+    country: undefined,
+  });
+};
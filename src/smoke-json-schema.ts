@@ -0,0 +1,53 @@
+import { strict as assert } from "assert";
+
+import { LLM_RESPONSE_SCHEMA } from "./extract";
+import { getLlmResponseFormat } from "./llm";
+import { ALLOWED_SERVICES } from "./services";
+
+type ObjectSchema = {
+  properties: Record<string, Record<string, unknown>>;
+  required: string[];
+  additionalProperties: unknown;
+};
+
+export const smokeJsonSchema = () => {
+  const previous = process.env.LLM_RESPONSE_FORMAT;
+  delete process.env.LLM_RESPONSE_FORMAT;
+  try {
+    assert.equal(getLlmResponseFormat(), "json_object");
+  } finally {
+    if (previous !== undefined) process.env.LLM_RESPONSE_FORMAT = previous;
+  }
+
+  const schema = LLM_RESPONSE_SCHEMA as ObjectSchema;
+  assert.equal(schema.additionalProperties, false);
+  for (const field of ["name", "slug", "website", "services", "short_description", "lead_contact"]) {
+    assert.ok(schema.required.includes(field), `${field} is required`);
+  }
+  assert.ok(!schema.required.includes("founded_year"));
+  assert.ok(!schema.required.includes("is_fictional"), "defaulted fields stay optional");
+
+  assert.deepEqual(schema.properties.company_size_band.enum, ["solo", "2-10", "11-50", "51-200", "200+"]);
+  assert.deepEqual((schema.properties.services.items as { enum: string[] }).enum, [...ALLOWED_SERVICES]);
+  assert.equal(schema.properties.primary_services.maxItems, 3);
+  assert.equal(schema.properties.short_description.maxLength, 200);
+
+  const leadContact = schema.properties.lead_contact.anyOf as ObjectSchema[];
+  assert.ok(leadContact.length > 1);
+  for (const variant of leadContact) assert.equal(variant.additionalProperties, false);
+
+  // The Impressum fields come from the deterministic parser, not the model.
+  const impressumFields = [
+    "legal_form",
+    "register_court",
+    "register_number",
+    "vat_id",
+    "managing_directors",
+    "postal_address",
+    "country",
+  ];
+  for (const field of impressumFields) {
+    assert.ok(!(field in schema.properties), `${field} is not requested from the model`);
+  }
+  assert.ok("provenance" in schema.properties);
+};
@@ -0,0 +1,97 @@
+import { strict as assert } from "assert";
+
+import { classifySeedProbe } from "./liveness";
+
+const SEED_URL = "https://muster-security.de";
+
+// undici wraps network failures in a TypeError with the system error as `cause`.
+const fetchFailed = (code: string) => Object.assign(new TypeError("fetch failed"), { cause: { code } });
+
+export const smokeLiveness = () => {
+  const alive = classifySeedProbe(SEED_URL, {
+    redirects: ["https://www.muster-security.de/"],
+    outcome: {
+      type: "response",
+      url: "https://www.muster-security.de/",
+      httpStatus: 200,
+      body: "<h1>Pentests</h1>",
+    },
+  });
+  assert.equal(alive.status, "alive");
+  assert.equal(alive.hostChanged, false, "www. does not count as a host change");
+  assert.equal(alive.reason, undefined);
+
+  // Bot protection answers plain fetches with 403 while the browser crawl works.
+  assert.equal(
+    classifySeedProbe(SEED_URL, {
+      redirects: [],
+      outcome: { type: "response", url: `${SEED_URL}/`, httpStatus: 403, body: "" },
+    }).status,
+    "alive",
+  );
+  const gone = classifySeedProbe(SEED_URL, {
+    redirects: [],
+    outcome: { type: "response", url: `${SEED_URL}/`, httpStatus: 410, body: "" },
+  });
+  assert.equal(gone.status, "dead");
+  assert.equal(gone.reason, "HTTP 410");
+
+  const parkingRedirect = classifySeedProbe(SEED_URL, {
+    redirects: ["https://sedo.com/search/details/?domain=muster-security.de"],
+    outcome: {
+      type: "response",
+      url: "https://sedo.com/search/details/?domain=muster-security.de",
+      httpStatus: 200,
+      body: "",
+    },
+  });
+  assert.equal(parkingRedirect.status, "dead");
+  assert.equal(parkingRedirect.reason, "Parked domain (redirected to sedo.com)");
+  assert.equal(parkingRedirect.hostChanged, true);
+  assert.equal(parkingRedirect.finalHost, "sedo.com");
+
+  const parkedPages = ["<title>Diese Domain steht zum Verkauf!</title>", "<p>This domain may be for sale.</p>"];
+  for (const body of parkedPages) {
+    const parked = classifySeedProbe(SEED_URL, {
+      redirects: [],
+      outcome: { type: "response", url: `${SEED_URL}/`, httpStatus: 200, body },
+    });
+    assert.equal(parked.status, "dead", body);
+    assert.ok(parked.parkedSignature);
+  }
+
+  assert.deepEqual(classifySeedProbe(SEED_URL, { redirects: [], outcome: { type: "redirect-limit" } }), {
+    status: "dead",
+    reason: "More than 10 redirects",
+    hostChanged: false,
+    redirects: [],
+  });
+
+  const tls = classifySeedProbe(SEED_URL, {
+    redirects: [],
+    outcome: { type: "error", error: fetchFailed("CERT_HAS_EXPIRED") },
+  });
+  assert.equal(tls.status, "dead");
+  assert.equal(tls.reason, "TLS error (CERT_HAS_EXPIRED)");
+  assert.equal(tls.tlsError, "CERT_HAS_EXPIRED");
+  const dns = classifySeedProbe(SEED_URL, {
+    redirects: [],
+    outcome: { type: "error", error: fetchFailed("ENOTFOUND") },
+  });
+  assert.equal(dns.status, "dead");
+  assert.equal(dns.reason, "DNS lookup failed (ENOTFOUND)");
+  assert.equal(dns.tlsError, undefined);
+  const timeout = new Error("The operation was aborted due to timeout");
+  timeout.name = "TimeoutError";
+  assert.equal(
+    classifySeedProbe(SEED_URL, { redirects: [], outcome: { type: "error", error: timeout } }).reason,
+    "No response within 20000 ms",
+  );
+
+  const disallowed = classifySeedProbe(SEED_URL, {
+    redirects: ["https://www.muster-security.de/"],
+    outcome: { type: "disallowed", url: "https://www.muster-security.de/" },
+  });
+  assert.equal(disallowed.status, "blocked");
+  assert.equal(disallowed.reason, "Disallowed by robots.txt: https://www.muster-security.de/");
+};
@@ -0,0 +1,64 @@
+import { strict as assert } from "assert";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+import {
+  configureLlmCache,
+  createLlmCacheKey,
+  getLlmCacheStats,
+  LlmCacheKeyInput,
+  withLlmCache,
+} from "./llm-cache";
+
+export const smokeLlmCache = async () => {
+  const input: LlmCacheKeyInput = {
+    model: "gpt-4o-mini",
+    baseUrl: "",
+    schemaVersion: 2,
+    request: { messages: [{ role: "user", content: "Extract" }] },
+  };
+  // Every part of the input is part of the key.
+  const key = createLlmCacheKey(input);
+  assert.equal(key, createLlmCacheKey({ ...input, request: { messages: [{ role: "user", content: "Extract" }] } }));
+  assert.notEqual(key, createLlmCacheKey({ ...input, model: "gpt-4o" }));
+  assert.notEqual(key, createLlmCacheKey({ ...input, baseUrl: "http://localhost:11434/v1" }));
+  assert.notEqual(key, createLlmCacheKey({ ...input, schemaVersion: 3 }));
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), "llm-cache-"));
+  const initial = getLlmCacheStats();
+  let calls = 0;
+  const fetchContent = async () => {
+    calls += 1;
+    return `{"answer": ${calls}}`;
+  };
+  try {
+    configureLlmCache({ mode: "use", dir });
+    assert.deepEqual(await withLlmCache(input, fetchContent), { content: '{"answer": 1}', cached: false });
+    assert.deepEqual(await withLlmCache(input, fetchContent), { content: '{"answer": 1}', cached: true });
+    assert.deepEqual(await readdir(dir), [`${key}.json`]);
+
+    // --refresh-llm-cache skips the lookup but stores the fresh answer for later runs.
+    configureLlmCache({ mode: "refresh" });
+    assert.deepEqual(await withLlmCache(input, fetchContent), { content: '{"answer": 2}', cached: false });
+    configureLlmCache({ mode: "use" });
+    assert.deepEqual(await withLlmCache(input, fetchContent), { content: '{"answer": 2}', cached: true });
+
+    // --no-llm-cache neither reads nor writes.
+    configureLlmCache({ mode: "off" });
+    assert.deepEqual(await withLlmCache({ ...input, model: "gpt-4o" }, fetchContent), {
+      content: '{"answer": 3}',
+      cached: false,
+    });
+    assert.deepEqual(await readdir(dir), [`${key}.json`]);
+
+    const stats = getLlmCacheStats();
+    assert.deepEqual(
+      [stats.hits - initial.hits, stats.misses - initial.misses, stats.writes - initial.writes],
+      [2, 2, 2],
+    );
+  } finally {
+    configureLlmCache({ mode: initial.mode, dir: path.join(process.cwd(), "out", "llm-cache") });
+    await rm(dir, { recursive: true, force: true });
+  }
+};
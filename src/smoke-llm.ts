@@ -0,0 +1,87 @@
+import { strict as assert } from "assert";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+
+import type { CrawledPage } from "./crawl";
+import { extractProvider } from "./extract";
+import { createOfflineBackend, type LlmBackend, type LlmChatRequest } from "./llm";
+import { createLlmCacheKey } from "./llm-cache";
+import { PROVIDER_SCHEMA_VERSION } from "./schema";
+
+const SEED_URL = "https://muster-security.example";
+
+const PAGES: CrawledPage[] = [
+  {
+    key: "home",
+    url: `${SEED_URL}/`,
+    status: 200,
+    text: [
+      "Muster Security GmbH bietet Penetrationstests und Incident Response für den Mittelstand in Deutschland.",
+      "Gegründet 2009 in Köln.",
+    ].join("\n"),
+  },
+];
+
+// Records the requests the pipeline sends, so a fixture can be stored under their cache key.
+const recordRequests = (backend: LlmBackend) => {
+  const requests: LlmChatRequest[] = [];
+  const recording: LlmBackend = {
+    ...backend,
+    complete: (request) => {
+      requests.push(request);
+      return backend.complete(request);
+    },
+  };
+  return { backend: recording, requests };
+};
+
+export const smokeLlm = async () => {
+  const previousEnsemble = process.env.LLM_ENSEMBLE_MODELS;
+  delete process.env.LLM_ENSEMBLE_MODELS;
+  const fixturesDir = await mkdtemp(path.join(os.tmpdir(), "llm-fixtures-"));
+  try {
+    const offline = createOfflineBackend({ fixturesDir });
+
+    const ruleBased = recordRequests(offline);
+    const fromRules = await extractProvider(SEED_URL, PAGES, { backend: ruleBased.backend });
+    assert.equal(ruleBased.requests.length, 1);
+    assert.equal(fromRules.provider.website, `${SEED_URL}/`);
+    assert.ok(fromRules.provider.notes?.startsWith("Extracted offline without an LLM."));
+    assert.ok(fromRules.provider.services.includes("Incident Response"));
+    assert.equal(fromRules.llm.cachedResponses, 0);
+
+    const [request] = ruleBased.requests;
+    const key = createLlmCacheKey({
+      model: request.model,
+      baseUrl: "",
+      schemaVersion: PROVIDER_SCHEMA_VERSION,
+      request,
+    });
+    await writeFile(
+      path.join(fixturesDir, `${key}.json`),
+      JSON.stringify({
+        content: JSON.stringify({
+          name: "Muster Security",
+          website: `${SEED_URL}/`,
+          services: ["Pentest", "Incident Response"],
+          primary_services: ["Pentest"],
+          short_description: "Penetration tests and incident response for mid-sized companies in Germany.",
+          founded_year: 2009,
+          provenance: { founded_year: { url: `${SEED_URL}/`, quote: "Gegründet 2009 in Köln." } },
+        }),
+      }),
+    );
+
+    const replayed = recordRequests(offline);
+    const fromFixture = await extractProvider(SEED_URL, PAGES, { backend: replayed.backend });
+    assert.equal(replayed.requests.length, 1);
+    assert.equal(fromFixture.provider.name, "Muster Security");
+    assert.equal(fromFixture.provider.founded_year, 2009);
+    assert.deepEqual(fromFixture.provider.primary_services, ["Pentest"]);
+    assert.ok(!fromFixture.provider.notes?.includes("Extracted offline without an LLM."));
+  } finally {
+    await rm(fixturesDir, { recursive: true, force: true });
+    if (previousEnsemble !== undefined) process.env.LLM_ENSEMBLE_MODELS = previousEnsemble;
+  }
+};
@@ -0,0 +1,50 @@
+import { strict as assert } from "assert";
+
+import { createSequencer, runWithConcurrency } from "./queue";
+import { Logger } from "./utils";
+
+export const smokeQueue = async () => {
+  const lines: string[] = [];
+  const sink: Logger = {
+    log: (...args: unknown[]) => lines.push(`log ${args.join(" ")}`),
+    warn: (...args: unknown[]) => lines.push(`warn ${args.join(" ")}`),
+    error: (...args: unknown[]) => lines.push(`error ${args.join(" ")}`),
+  };
+  const sequencer = createSequencer(3, sink);
+
+  // Later items are buffered until every earlier item has finished.
+  sequencer.loggerFor(2).log("third");
+  sequencer.loggerFor(1).warn("second");
+  sequencer.loggerFor(0).log("first");
+  assert.deepEqual(lines, ["log first"]);
+
+  let secondsTurn = false;
+  const turn = sequencer.waitTurn(1).then(() => {
+    secondsTurn = true;
+  });
+  await Promise.resolve();
+  assert.equal(secondsTurn, false);
+  sequencer.complete(0);
+  await turn;
+  assert.equal(secondsTurn, true);
+  assert.deepEqual(lines, ["log first", "warn second"]);
+
+  sequencer.complete(2);
+  assert.deepEqual(lines, ["log first", "warn second"]);
+  sequencer.complete(1);
+  assert.deepEqual(lines, ["log first", "warn second", "log third"]);
+
+  // Every item is processed once, with no more than `concurrency` in flight.
+  const seen: number[] = [];
+  let active = 0;
+  let peak = 0;
+  await runWithConcurrency([10, 20, 30, 40, 50], 2, async (item, index) => {
+    active += 1;
+    peak = Math.max(peak, active);
+    await new Promise((resolve) => setTimeout(resolve, 5 * (index % 2)));
+    seen.push(item);
+    active -= 1;
+  });
+  assert.deepEqual([...seen].sort((a, b) => a - b), [10, 20, 30, 40, 50]);
+  assert.equal(peak, 2);
+};
@@ -0,0 +1,66 @@
+import { strict as assert } from "assert";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+import { createProviderReport, toReportIssues, writeProviderReport } from "./report";
+import { ProviderFrontmatterSchema, PROVIDER_SCHEMA_VERSION } from "./schema";
+
+export const smokeReport = async () => {
+  const fields = {
+    schema_version: PROVIDER_SCHEMA_VERSION,
+    name: "Muster Security",
+    slug: "muster-security-de",
+    website: "https://muster-security.de",
+    regions: ["DE"],
+    services: ["Pentest"],
+    primary_services: ["Pentest"],
+    short_description: "Penetration tests for mid-sized companies in Germany.",
+    languages: ["de"],
+    delivery_modes: ["remote"],
+    company_size_band: "11-50",
+    response_time_band: "unknown",
+    lead_contact: { type: "email", value: "info@muster-security.de" },
+    evidence_level: "basic",
+  };
+
+  const invalid = ProviderFrontmatterSchema.safeParse({
+    ...fields,
+    company_size_band: "1000+",
+    lead_contact: { type: "email", value: "not an address" },
+  });
+  assert.ok(!invalid.success);
+  const issues = toReportIssues("repair 1", invalid.error.issues);
+  assert.deepEqual(
+    issues.map((issue) => [issue.attempt, issue.path, issue.code]),
+    [
+      ["repair 1", "company_size_band", "invalid_enum_value"],
+      ["repair 1", "lead_contact.value", "invalid_string"],
+    ],
+  );
+  assert.equal(toReportIssues("final", [{ code: "custom", path: [], message: "Broken" }])[0].path, "(root)");
+
+  const provider = ProviderFrontmatterSchema.parse(fields);
+  const report = createProviderReport();
+  report.validation = "repaired";
+  report.validationIssues.push(...issues);
+  report.defaulted.push({ field: "company_size_band", value: "2-10", reason: "Company size not stated" });
+  report.notes.push("x".repeat(300));
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), "provider-report-"));
+  try {
+    await writeProviderReport(dir, provider.slug, provider, report);
+    const written = JSON.parse(await readFile(path.join(dir, "muster-security-de.report.json"), "utf8"));
+    assert.equal(written.slug, "muster-security-de");
+    assert.equal(written.publishStatus, "published");
+    assert.equal(written.evidenceLevel, "basic");
+    assert.equal(written.validation, "repaired");
+    assert.equal(written.validationIssues.length, 2);
+    assert.deepEqual(written.defaulted, report.defaulted);
+    // Unlike the sheet's notes cell, the report keeps notes untruncated.
+    assert.equal(written.notes[0].length, 300);
+    assert.ok(!Number.isNaN(Date.parse(written.generatedAt)));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
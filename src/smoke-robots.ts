@@ -0,0 +1,55 @@
+import { strict as assert } from "assert";
+
+import { buildPolicy, isPathAllowed, parseRobots } from "./robots";
+
+export const smokeRobots = () => {
+  const robots = parseRobots(
+    [
+      "# comment",
+      "User-agent: *",
+      "Disallow: /private",
+      "Allow: /private/public",
+      "Disallow:",
+      "",
+      "User-agent: OtherBot",
+      "User-agent: CybernautenProviderResearch",
+      "Disallow: /internal/*.pdf$",
+      "Crawl-delay: 2",
+      "Sitemap: https://example.com/sitemap.xml",
+    ].join("\r\n"),
+  );
+  assert.deepEqual(robots.sitemaps, ["https://example.com/sitemap.xml"]);
+  assert.equal(robots.groups.length, 2);
+  const [generic, specific] = robots.groups;
+  assert.deepEqual(specific.agents, ["otherbot", "cybernautenproviderresearch"]);
+  assert.equal(specific.crawlDelaySeconds, 2);
+
+  // Longest match wins; an empty Disallow adds no rule.
+  assert.equal(generic.rules.length, 2);
+  assert.equal(isPathAllowed(generic.rules, "/private/report"), false);
+  assert.equal(isPathAllowed(generic.rules, "/private/public/page"), true);
+  assert.equal(isPathAllowed(generic.rules, "/services"), true);
+
+  // Wildcards match any run of characters; "$" anchors the end.
+  assert.equal(isPathAllowed(specific.rules, "/internal/docs/report.pdf"), false);
+  assert.equal(isPathAllowed(specific.rules, "/internal/report.pdf?download=1"), true);
+  assert.equal(isPathAllowed(specific.rules, "/internal/report.html"), true);
+
+  // Allow wins ties between rules of equal length.
+  const tied = parseRobots("User-agent: *\nDisallow: /page\nAllow: /page").groups[0].rules;
+  assert.equal(isPathAllowed(tied, "/page"), true);
+
+  // Groups apply when they name the whole product token; "research" is not "CybernautenProviderResearch".
+  const userAgent = "CybernautenProviderResearch/0.1";
+  const partial = buildPolicy(
+    parseRobots("User-agent: research\nDisallow: /\n\nUser-agent: *\nDisallow: /private"),
+    userAgent,
+  );
+  assert.equal(partial.isAllowed("https://example.com/services"), true);
+  assert.equal(partial.isAllowed("https://example.com/private/report"), false);
+  const named = buildPolicy(
+    parseRobots("User-agent: cybernautenproviderresearch\nDisallow: /\n\nUser-agent: *\nAllow: /"),
+    userAgent,
+  );
+  assert.equal(named.isAllowed("https://example.com/services"), false);
+};
@@ -0,0 +1,95 @@
+import { strict as assert } from "assert";
+
+import { ProviderFrontmatterSchema, PROVIDER_SCHEMA_VERSION } from "./schema";
+import { ExistingSheetRow, getMergePolicies, planProviderRow, SheetColumn, SheetRowPlan } from "./sheet";
+
+const provider = ProviderFrontmatterSchema.parse({
+  schema_version: PROVIDER_SCHEMA_VERSION,
+  name: "Muster Security",
+  slug: "muster-security",
+  website: "https://example.com",
+  regions: ["DE"],
+  services: ["Pentest"],
+  primary_services: ["Pentest"],
+  short_description: "Penetration tests and incident response for mid-sized companies.",
+  languages: ["de"],
+  delivery_modes: ["remote"],
+  company_size_band: "11-50",
+  response_time_band: "unknown",
+  lead_contact: { type: "email", value: "info@example.com" },
+});
+
+const existingRow = (values: ExistingSheetRow["values"]): ExistingSheetRow => ({ rowNumber: 7, values });
+
+const changedColumns = (plan: SheetRowPlan): SheetColumn[] => plan.changes.map((change) => change.column);
+
+const withMergePolicies = <T>(value: string | undefined, run: () => T): T => {
+  const previous = process.env.SHEET_MERGE_POLICIES;
+  if (value === undefined) {
+    delete process.env.SHEET_MERGE_POLICIES;
+  } else {
+    process.env.SHEET_MERGE_POLICIES = value;
+  }
+  try {
+    return run();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.SHEET_MERGE_POLICIES;
+    } else {
+      process.env.SHEET_MERGE_POLICIES = previous;
+    }
+  }
+};
+
+export const smokeSheet = () =>
+  withMergePolicies(undefined, () => {
+    // New rows are written in full; nothing to conflict with.
+    const fresh = planProviderRow(undefined, provider);
+    assert.equal(fresh.conflicts.length, 0);
+    assert.ok(changedColumns(fresh).includes("short_description"));
+    assert.ok(!changedColumns(fresh).includes("locked"));
+
+    // fill_if_empty keeps an editor's value, overwrite refreshes crawl-derived columns,
+    // and the lead contact columns are filled only as a group.
+    const edited = planProviderRow(
+      existingRow({
+        name: "Muster Security (edited)",
+        services: "Cloud Security",
+        lead_contact_value: "https://example.com/kontakt",
+      }),
+      provider,
+    );
+    assert.equal(edited.conflicts.find((conflict) => conflict.column === "name")?.reason, "fill_if_empty");
+    assert.ok(changedColumns(edited).includes("services"));
+    assert.ok(!changedColumns(edited).includes("lead_contact_type"));
+    assert.ok(changedColumns(edited).includes("short_description"));
+
+    // A locked column is kept even under overwrite; pipeline-owned columns cannot be locked.
+    const locked = planProviderRow(
+      existingRow({ services: "Cloud Security", notes: "old", locked: "services, notes" }),
+      provider,
+    );
+    assert.deepEqual(locked.conflicts, [
+      { column: "services", kept: "Cloud Security", rejected: "Pentest", reason: "column locked" },
+    ]);
+
+    // Rows the provider submitted, or locked with "x", keep every lockable column.
+    for (const values of [{ data_origin: "provider_submitted" }, { locked: "x" }]) {
+      const plan = planProviderRow(existingRow({ ...values, services: "Cloud Security" }), provider);
+      assert.deepEqual(changedColumns(plan), ["schema_version", "slug"]);
+    }
+
+    withMergePolicies("services=never_touch, publish_status = fill_if_empty", () => {
+      const policies = getMergePolicies();
+      assert.equal(policies.services, "never_touch");
+      assert.equal(policies.publish_status, "fill_if_empty");
+      assert.equal(policies.website, "overwrite");
+      assert.ok(!changedColumns(planProviderRow(undefined, provider)).includes("services"));
+    });
+    withMergePolicies("services=keep", () => {
+      assert.throws(getMergePolicies, /unknown policy "keep"/);
+    });
+    withMergePolicies("serivces=never_touch", () => {
+      assert.throws(getMergePolicies, /unknown column "serivces"/);
+    });
+  });
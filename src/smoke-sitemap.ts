@@ -0,0 +1,36 @@
+import { strict as assert } from "assert";
+
+import { parseSitemap } from "./sitemap";
+
+export const smokeSitemap = () => {
+  const urlset = parseSitemap(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>https://example.com/leistungen?a=1&amp;b=2</loc>
+    <lastmod>2025-03-01</lastmod>
+    <xhtml:link rel="alternate" hreflang="EN" href="https://example.com/en/services"/>
+    <xhtml:link rel="canonical" hreflang="de" href="https://example.com/leistungen"/>
+  </url>
+  <url><loc><![CDATA[https://example.com/kontakt]]></loc></url>
+  <url><lastmod>2025-01-01</lastmod></url>
+</urlset>`);
+  assert.equal(urlset.kind, "urlset");
+  assert.deepEqual(urlset.entries, [
+    {
+      loc: "https://example.com/leistungen?a=1&b=2",
+      lastmod: "2025-03-01",
+      alternates: [{ hreflang: "en", href: "https://example.com/en/services" }],
+    },
+    { loc: "https://example.com/kontakt", lastmod: undefined, alternates: [] },
+  ]);
+
+  const index = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/page-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/post-sitemap.xml.gz</loc><lastmod>2024-12-24</lastmod></sitemap>
+</sitemapindex>`);
+  assert.equal(index.kind, "index");
+  assert.deepEqual(
+    index.entries.map((entry) => entry.loc),
+    ["https://example.com/page-sitemap.xml", "https://example.com/post-sitemap.xml.gz"],
+  );
+};
@@ -0,0 +1,93 @@
+import { strict as assert } from "assert";
+
+import type { CrawledPage } from "./crawl";
+import { collectStructuredFacts, parseStructuredData, toCompanySizeBand } from "./structured";
+
+export const smokeStructured = () => {
+  const home = parseStructuredData({
+    jsonLd: [
+      JSON.stringify({
+        "@context": "https://schema.org",
+        "@graph": [
+          { "@type": "WebSite", name: "Muster Security", url: "https://muster-security.de/" },
+          {
+            "@type": "https://schema.org/ProfessionalService",
+            name: "Muster Security",
+            legalName: "Muster Security GmbH",
+            foundingDate: "2009-04-01",
+            address: {
+              "@type": "PostalAddress",
+              streetAddress: "Musterstraße 12",
+              postalCode: "10115",
+              addressLocality: "Berlin",
+              addressCountry: "DE",
+            },
+            contactPoint: [{ "@type": "ContactPoint", email: "mailto:info@muster-security.de" }],
+            numberOfEmployees: { "@type": "QuantitativeValue", minValue: 20, maxValue: 40 },
+          },
+        ],
+      }),
+      "{ invalid json",
+    ],
+    meta: {
+      Description: "  Penetrationstests\n für den Mittelstand ",
+      "og:site_name": "Muster Security",
+      robots: "index",
+    },
+  });
+  assert.ok(home);
+  assert.equal(home.organizations.length, 1);
+  assert.deepEqual(home.organizations[0].types, ["ProfessionalService"]);
+  assert.equal(home.organizations[0].address, "Musterstraße 12, 10115 Berlin, DE");
+  assert.equal(home.organizations[0].email, "info@muster-security.de");
+  assert.deepEqual(home.meta, { description: "Penetrationstests für den Mittelstand", ogSiteName: "Muster Security" });
+
+  // The site owner is often only reachable through a WebPage's publisher.
+  const about = parseStructuredData({
+    jsonLd: [
+      JSON.stringify({
+        "@type": "WebPage",
+        publisher: {
+          "@type": "Organization",
+          legalName: "Muster Holding AG",
+          foundingDate: "1998",
+          telephone: "+49 30 1234567",
+          numberOfEmployees: "250+",
+        },
+      }),
+    ],
+    meta: {},
+  });
+  assert.equal(about?.organizations[0].legalName, "Muster Holding AG");
+  assert.equal(parseStructuredData({ jsonLd: ['{"@type": "WebSite"}'], meta: {} }), undefined);
+
+  // The homepage wins even when it comes later; other pages only fill the gaps.
+  const pages: CrawledPage[] = [
+    { key: "about", url: "https://muster-security.de/ueber-uns", status: 200, text: "", structured: about },
+    { key: "home", url: "https://muster-security.de/", status: 200, text: "", structured: home },
+  ];
+  const facts = collectStructuredFacts(pages);
+  assert.deepEqual(facts.legalName, {
+    value: "Muster Security GmbH",
+    property: "legalName",
+    url: "https://muster-security.de/",
+    pageKey: "home",
+  });
+  assert.equal(facts.foundedYear?.value, 2009);
+  assert.equal(facts.email?.value, "info@muster-security.de");
+  assert.equal(facts.telephone?.pageKey, "about");
+  assert.deepEqual(facts.employees?.value, { min: 20, max: 40 });
+
+  assert.equal(toCompanySizeBand({ min: 1, max: 1 }), "solo");
+  assert.equal(toCompanySizeBand({ min: 20, max: 40 }), "11-50");
+  assert.equal(toCompanySizeBand({ min: 50, max: 100 }), "51-200");
+  assert.equal(toCompanySizeBand({ min: 250 }), "200+");
+  assert.equal(toCompanySizeBand({ min: 120 }), "51-200");
+  assert.equal(toCompanySizeBand({}), undefined);
+  const band = (numberOfEmployees: unknown) =>
+    parseStructuredData({ jsonLd: [JSON.stringify({ "@type": "Corporation", numberOfEmployees })], meta: {} })
+      ?.organizations[0].numberOfEmployees;
+  assert.deepEqual(band("250+"), { min: 250, max: undefined });
+  assert.deepEqual(band("ca. 40 Mitarbeitende"), { min: 40, max: 40 });
+  assert.deepEqual(band({ "@type": "QuantitativeValue", value: "1.200" }), { min: 1200, max: 1200 });
+};
@@ -0,0 +1,87 @@
+import { strict as assert } from "assert";
+
+import { formatRunSummaryMarkdown, RunSummaryRow, summarizeRun } from "./summary";
+
+const row = (overrides: Partial<RunSummaryRow> & Pick<RunSummaryRow, "slug" | "outcome">): RunSummaryRow => ({
+  seedUrl: `https://${overrides.slug}.example`,
+  publishReasons: [],
+  defaultedFields: [],
+  sheetConflicts: [],
+  ...overrides,
+});
+
+export const smokeSummary = () => {
+  const summary = summarizeRun(
+    { startedAt: "2026-01-05T08:00:00.000Z", mode: "crawl", dryRun: false, llmBackend: "openai" },
+    [
+      row({
+        slug: "muster-security-de",
+        outcome: "upserted",
+        pagesFetched: 12,
+        pagesFailed: 1,
+        impressumFound: true,
+        externalProofPages: 2,
+        llmRequests: 3,
+        llmCachedResponses: 1,
+        llmLatencyMs: 4000,
+        validation: "valid",
+        publishStatus: "published",
+        sheetConflicts: ["short_description kept \"A\" over \"B\" (fill_if_empty)"],
+      }),
+      row({
+        slug: "nord-forensik-de",
+        outcome: "upserted",
+        pagesFetched: 5,
+        pagesFailed: 0,
+        impressumFound: false,
+        llmRequests: 2,
+        llmCachedResponses: 0,
+        llmLatencyMs: 2000,
+        validation: "repaired",
+        publishStatus: "hidden",
+        publishReasons: ["short_description too generic | no services"],
+        defaultedFields: ["company_size_band", "delivery_modes"],
+      }),
+      row({ slug: "kaputt-example-com", outcome: "failed", error: "Crawl failed:\nnet::ERR_NAME_NOT_RESOLVED" }),
+    ],
+  );
+
+  const { totals } = summary;
+  assert.equal(totals.providers, 3);
+  assert.deepEqual(totals.outcomes, {
+    upserted: 2,
+    validated: 0,
+    declined: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 1,
+  });
+  assert.deepEqual([totals.published, totals.hidden, totals.impressumMissing], [1, 1, 1]);
+  assert.deepEqual(totals.validation, { valid: 1, repaired: 1 });
+  assert.deepEqual([totals.pagesFetched, totals.pagesFailed, totals.externalProofPages], [17, 1, 2]);
+  assert.deepEqual([totals.llmRequests, totals.llmCachedResponses, totals.llmLatencyMs], [5, 1, 6000]);
+  assert.equal(totals.sheetConflicts, 1);
+
+  const markdown = formatRunSummaryMarkdown(summary);
+  const lines = markdown.split("\n");
+  assert.equal(lines[0], "# Provider run 2026-01-05T08:00:00.000Z");
+  assert.ok(lines.includes("- Providers: 3 (2 upserted, 1 failed)"));
+  assert.ok(lines.includes("- LLM: 5 request(s), 1 cached, 6.0s total latency, 1.5s per uncached request"));
+
+  // Pipes are escaped and line breaks collapsed, so every row stays one table row.
+  const hiddenRow = lines.find((line) => line.startsWith("| [nord-forensik-de]"));
+  assert.ok(hiddenRow?.includes("| short_description too generic \\| no services |"));
+  assert.ok(hiddenRow?.includes("| company_size_band, delivery_modes |"));
+  const failedRow = lines.find((line) => line.startsWith("| [kaputt-example-com]"));
+  assert.ok(failedRow?.includes("| failed: Crawl failed: net::ERR_NAME_NOT_RESOLVED | – |"));
+  const tableRows = lines.filter((line) => line.startsWith("| ["));
+  for (const line of tableRows) {
+    assert.equal(line.split(/(?<!\\)\|/).length, 14, line);
+  }
+
+  // The upserted, published provider with an Impressum is only listed under all providers.
+  const attention = markdown.slice(markdown.indexOf("## Needs attention"), markdown.indexOf("## All providers"));
+  assert.ok(!attention.includes("muster-security-de"));
+  assert.ok(attention.includes("nord-forensik-de") && attention.includes("kaputt-example-com"));
+  assert.equal(tableRows.length, 5);
+};
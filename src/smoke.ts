@@ -1,7 +1,25 @@
 import { ProviderFrontmatterSchema, PROVIDER_SCHEMA_VERSION } from "./schema";
 import { ALLOWED_SERVICES } from "./services";
+import { smokeAliases } from "./smoke-aliases";
+import { smokeBsiList } from "./smoke-bsi-list";
+import { smokeChunking } from "./smoke-chunking";
+import { smokeConsensus } from "./smoke-consensus";
+import { smokeContact } from "./smoke-contact";
+import { smokeEvidence } from "./smoke-evidence";
+import { smokeImpressum } from "./smoke-impressum";
+import { smokeJsonSchema } from "./smoke-json-schema";
+import { smokeLiveness } from "./smoke-liveness";
+import { smokeLlm } from "./smoke-llm";
+import { smokeLlmCache } from "./smoke-llm-cache";
+import { smokeQueue } from "./smoke-queue";
+import { smokeReport } from "./smoke-report";
+import { smokeRobots } from "./smoke-robots";
+import { smokeSheet } from "./smoke-sheet";
+import { smokeSitemap } from "./smoke-sitemap";
+import { smokeStructured } from "./smoke-structured";
+import { smokeSummary } from "./smoke-summary";
 
-const run = () => {
+const run = async () => {
   if (Number(ALLOWED_SERVICES.length) === 0) {
     throw new Error("ALLOWED_SERVICES is empty");
   }
@@ -35,7 +53,30 @@ const run = () => {
     throw new Error("Schema validation failed");
   }
 
+  // Pure modules, checked without network, browser or LLM.
+  await smokeQueue();
+  smokeEvidence();
+  smokeRobots();
+  smokeSitemap();
+  smokeImpressum();
+  smokeContact();
+  smokeChunking();
+  smokeConsensus();
+  smokeSheet();
+  smokeJsonSchema();
+  await smokeLlm();
+  smokeBsiList();
+  smokeStructured();
+  await smokeAliases();
+  smokeLiveness();
+  await smokeLlmCache();
+  await smokeReport();
+  smokeSummary();
+
   console.log("Smoke test passed.");
 };
 
-run();
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
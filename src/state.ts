@@ -0,0 +1,203 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+import { SkippedUrl } from "./crawl";
+
+export const RUN_STAGES = [
+  "pending",
+  "crawled",
+  "extracted",
+  "validated",
+  "upserted",
+] as const;
+
+export type RunStage = (typeof RUN_STAGES)[number];
+
+export type ProviderRunState = {
+  seedUrl: string;
+  stage: RunStage | "unchanged" | "failed";
+  failedStage?: RunStage;
+  error?: string;
+  attempts: number;
+  skippedUrls?: SkippedUrl[];
+  updatedAt: string;
+};
+
+export type ProviderRunDetails = Pick<ProviderRunState, "skippedUrls">;
+
+export type RunState = {
+  startedAt: string;
+  updatedAt: string;
+  providers: Record<string, ProviderRunState>;
+};
+
+export type ContentHashRecord = {
+  sourceHash: string;
+  pageHashes: Record<string, string>;
+  schemaVersion: number;
+  updatedAt: string;
+};
+
+export const createJsonFileWriter = (filePath: string) => {
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const write = (data: unknown) => {
+    const snapshot = JSON.stringify(data, null, 2);
+    const tempPath = `${filePath}.tmp`;
+    // A failed write rejects only its own caller; the next write starts from a clean chain.
+    const next = pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(tempPath, snapshot, "utf8");
+        await rename(tempPath, filePath);
+      });
+    pendingWrite = next;
+    return next;
+  };
+
+  return { write, flush: () => pendingWrite };
+};
+
+const createEmptyState = (): RunState => {
+  const now = new Date().toISOString();
+  return { startedAt: now, updatedAt: now, providers: {} };
+};
+
+const loadRunState = async (filePath: string): Promise<RunState> => {
+  try {
+    const content = await readFile(filePath, "utf8");
+    const parsed = JSON.parse(content) as RunState;
+    if (!parsed || typeof parsed !== "object" || !parsed.providers) {
+      return createEmptyState();
+    }
+    return parsed;
+  } catch {
+    return createEmptyState();
+  }
+};
+
+export const hasReachedStage = (state: ProviderRunState | undefined, target: RunStage): boolean => {
+  if (!state || state.stage === "failed") {
+    return false;
+  }
+  if (state.stage === "unchanged") {
+    return true;
+  }
+  return RUN_STAGES.indexOf(state.stage) >= RUN_STAGES.indexOf(target);
+};
+
+/**
+ * Without `resume`, only the providers selected for this run start over; the
+ * progress of every other provider in the file is kept.
+ */
+export const createRunStateStore = async (
+  filePath: string,
+  options: { resume: boolean; slugs: string[] },
+) => {
+  const state = await loadRunState(filePath);
+  if (!options.resume) {
+    state.startedAt = new Date().toISOString();
+    for (const slug of options.slugs) {
+      delete state.providers[slug];
+    }
+  }
+  const writer = createJsonFileWriter(filePath);
+
+  const persist = () => {
+    state.updatedAt = new Date().toISOString();
+    return writer.write(state);
+  };
+
+  const get = (slug: string): ProviderRunState | undefined => state.providers[slug];
+
+  const markStage = (
+    slug: string,
+    seedUrl: string,
+    stage: RunStage | "unchanged",
+    details: ProviderRunDetails = {},
+  ) => {
+    const current = state.providers[slug];
+    state.providers[slug] = {
+      seedUrl,
+      stage,
+      attempts: current?.attempts ?? 0,
+      skippedUrls: details.skippedUrls ?? current?.skippedUrls,
+      updatedAt: new Date().toISOString(),
+    };
+    return persist();
+  };
+
+  const begin = (slug: string, seedUrl: string) => {
+    const current = state.providers[slug];
+    state.providers[slug] = {
+      seedUrl,
+      stage: "pending",
+      attempts: (current?.attempts ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    return persist();
+  };
+
+  const markFailed = (slug: string, seedUrl: string, error: unknown) => {
+    const current = state.providers[slug];
+    const failedStage =
+      current && current.stage !== "failed" && current.stage !== "unchanged"
+        ? current.stage
+        : current?.failedStage ?? "pending";
+    state.providers[slug] = {
+      seedUrl,
+      stage: "failed",
+      failedStage,
+      error: error instanceof Error ? error.message : String(error),
+      attempts: current?.attempts ?? 1,
+      skippedUrls: current?.skippedUrls,
+      updatedAt: new Date().toISOString(),
+    };
+    return persist();
+  };
+
+  return { get, begin, markStage, markFailed, flush: writer.flush };
+};
+
+export type RunStateStore = Awaited<ReturnType<typeof createRunStateStore>>;
+
+const loadJsonRecord = async <T>(filePath: string): Promise<Record<string, T>> => {
+  try {
+    const content = await readFile(filePath, "utf8");
+    const parsed = JSON.parse(content) as Record<string, T>;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Remembers the crawled content of the last successful upsert per provider so
+ * unchanged sites can skip extraction and the sheet write on the next run.
+ */
+export const createContentHashStore = async (filePath: string, schemaVersion: number) => {
+  const records = await loadJsonRecord<ContentHashRecord>(filePath);
+  const writer = createJsonFileWriter(filePath);
+
+  const isUnchanged = (slug: string, sourceHash: string): boolean => {
+    const record = records[slug];
+    return Boolean(
+      record && record.sourceHash === sourceHash && record.schemaVersion === schemaVersion,
+    );
+  };
+
+  const record = (slug: string, sourceHash: string, pageHashes: Record<string, string>) => {
+    records[slug] = {
+      sourceHash,
+      pageHashes,
+      schemaVersion,
+      updatedAt: new Date().toISOString(),
+    };
+    return writer.write(records);
+  };
+
+  return { isUnchanged, record, flush: writer.flush };
+};
+
+export type ContentHashStore = Awaited<ReturnType<typeof createContentHashStore>>;
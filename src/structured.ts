@@ -0,0 +1,272 @@
+import { CrawledPage } from "./crawl";
+
+export type EmployeeRange = {
+  min?: number;
+  max?: number;
+};
+
+export type StructuredOrganization = {
+  types: string[];
+  name?: string;
+  legalName?: string;
+  url?: string;
+  foundingDate?: string;
+  address?: string;
+  sameAs: string[];
+  email?: string;
+  telephone?: string;
+  contactUrl?: string;
+  numberOfEmployees?: EmployeeRange;
+};
+
+export type PageMetadata = {
+  description?: string;
+  ogTitle?: string;
+  ogDescription?: string;
+  ogSiteName?: string;
+};
+
+export type StructuredData = {
+  organizations: StructuredOrganization[];
+  meta: PageMetadata;
+};
+
+/** What the browser hands over: raw JSON-LD script bodies and selected meta tags. */
+export type RawStructuredData = {
+  jsonLd: string[];
+  meta: Record<string, string>;
+};
+
+export type StructuredFact<T> = {
+  value: T;
+  property: string;
+  url: string;
+  pageKey: string;
+};
+
+export type StructuredFacts = {
+  legalName?: StructuredFact<string>;
+  foundedYear?: StructuredFact<number>;
+  email?: StructuredFact<string>;
+  telephone?: StructuredFact<string>;
+  contactUrl?: StructuredFact<string>;
+  employees?: StructuredFact<EmployeeRange>;
+};
+
+const ORGANIZATION_TYPES = [
+  "organization",
+  "corporation",
+  "localbusiness",
+  "professionalservice",
+  "onlinebusiness",
+  "ngo",
+];
+
+// Properties of WebSite/WebPage nodes that usually hold the site owner.
+const OWNER_PROPERTIES = ["publisher", "provider", "mainEntity", "about", "author"];
+
+const META_KEYS: Record<string, keyof PageMetadata> = {
+  description: "description",
+  "og:title": "ogTitle",
+  "og:description": "ogDescription",
+  "og:site_name": "ogSiteName",
+};
+
+type JsonNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is JsonNode =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const toArray = (value: unknown): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const readString = (value: unknown): string | undefined => {
+  const first = toArray(value)[0];
+  if (typeof first === "string" || typeof first === "number") {
+    const trimmed = String(first).replace(/\s+/g, " ").trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (isNode(first)) {
+    return readString(first.name ?? first["@value"]);
+  }
+  return undefined;
+};
+
+const readTypes = (node: JsonNode): string[] =>
+  toArray(node["@type"])
+    .filter((type): type is string => typeof type === "string")
+    .map((type) => type.replace(/^https?:\/\/schema\.org\//, ""));
+
+const isOrganization = (node: JsonNode): boolean =>
+  readTypes(node).some((type) => {
+    const lower = type.toLowerCase();
+    return (
+      ORGANIZATION_TYPES.includes(lower) ||
+      lower.endsWith("organization") ||
+      lower.endsWith("business")
+    );
+  });
+
+const readAddress = (value: unknown): string | undefined => {
+  const first = toArray(value)[0];
+  if (!isNode(first)) {
+    return readString(first);
+  }
+  const parts = [
+    readString(first.streetAddress),
+    [readString(first.postalCode), readString(first.addressLocality)].filter(Boolean).join(" "),
+    readString(first.addressCountry),
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(", ") : undefined;
+};
+
+const parseCount = (value: unknown): number | undefined => {
+  const parsed =
+    typeof value === "number"
+      ? value
+      : Number.parseInt(String(value ?? "").replace(/[.,\s]/g, ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const readEmployees = (value: unknown): EmployeeRange | undefined => {
+  const first = toArray(value)[0];
+  if (isNode(first)) {
+    const exact = parseCount(first.value);
+    const min = parseCount(first.minValue) ?? exact;
+    const max = parseCount(first.maxValue) ?? exact;
+    return min || max ? { min, max } : undefined;
+  }
+  if (typeof first === "string") {
+    // "50-100", "250+" or "ca. 40 Mitarbeitende"
+    const numbers = (first.match(/\d[\d.,]*/g) ?? [])
+      .map(parseCount)
+      .filter((entry): entry is number => Boolean(entry));
+    if (numbers.length === 0) {
+      return undefined;
+    }
+    const openEnded = numbers.length === 1 && first.includes("+");
+    return { min: numbers[0], max: openEnded ? undefined : numbers[numbers.length - 1] };
+  }
+  const exact = parseCount(first);
+  return exact ? { min: exact, max: exact } : undefined;
+};
+
+const stripMailto = (value: string | undefined): string | undefined =>
+  value?.replace(/^mailto:/i, "").trim() || undefined;
+
+const toOrganization = (node: JsonNode): StructuredOrganization => {
+  const contactPoints = toArray(node.contactPoint).filter(isNode);
+  const fromContactPoints = (key: string) =>
+    contactPoints.map((point) => readString(point[key])).find(Boolean);
+  return {
+    types: readTypes(node),
+    name: readString(node.name),
+    legalName: readString(node.legalName),
+    url: readString(node.url),
+    foundingDate: readString(node.foundingDate),
+    address: readAddress(node.address),
+    sameAs: toArray(node.sameAs).filter((entry): entry is string => typeof entry === "string"),
+    email: stripMailto(readString(node.email) ?? fromContactPoints("email")),
+    telephone: readString(node.telephone) ?? fromContactPoints("telephone"),
+    contactUrl: fromContactPoints("url"),
+    numberOfEmployees: readEmployees(node.numberOfEmployees),
+  };
+};
+
+const collectOrganizationNodes = (value: unknown, found: JsonNode[], depth = 0) => {
+  if (depth > 3) {
+    return;
+  }
+  for (const item of toArray(value)) {
+    if (!isNode(item)) {
+      continue;
+    }
+    if (item["@graph"]) {
+      collectOrganizationNodes(item["@graph"], found, depth + 1);
+    }
+    if (isOrganization(item)) {
+      found.push(item);
+      continue;
+    }
+    for (const property of OWNER_PROPERTIES) {
+      collectOrganizationNodes(item[property], found, depth + 1);
+    }
+  }
+};
+
+export const parseStructuredData = (raw: RawStructuredData): StructuredData | undefined => {
+  const nodes: JsonNode[] = [];
+  for (const block of raw.jsonLd) {
+    try {
+      collectOrganizationNodes(JSON.parse(block), nodes);
+    } catch {
+      // Hand-written JSON-LD is often invalid; the visible text still goes to extraction.
+    }
+  }
+  const meta: PageMetadata = {};
+  for (const [key, value] of Object.entries(raw.meta)) {
+    const field = META_KEYS[key.toLowerCase()];
+    const trimmed = value.replace(/\s+/g, " ").trim();
+    if (field && trimmed) {
+      meta[field] = trimmed;
+    }
+  }
+  const organizations = nodes.map(toOrganization);
+  if (organizations.length === 0 && Object.keys(meta).length === 0) {
+    return undefined;
+  }
+  return { organizations, meta };
+};
+
+const parseFoundingYear = (value: string | undefined): number | undefined => {
+  const match = value?.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Collects machine-readable company facts from the JSON-LD of official pages. The
+ * homepage wins over other pages, and the first organization on a page wins over
+ * later ones (nested publishers and partners tend to come last).
+ */
+export const collectStructuredFacts = (pages: CrawledPage[]): StructuredFacts => {
+  const ordered = [...pages].sort((a, b) => Number(b.key === "home") - Number(a.key === "home"));
+  const facts: StructuredFacts = {};
+  for (const page of ordered) {
+    for (const organization of page.structured?.organizations ?? []) {
+      const fact = <T>(value: T | undefined, property: string): StructuredFact<T> | undefined =>
+        value === undefined ? undefined : { value, property, url: page.url, pageKey: page.key };
+      facts.legalName ??= fact(organization.legalName, "legalName");
+      facts.foundedYear ??= fact(parseFoundingYear(organization.foundingDate), "foundingDate");
+      facts.email ??= fact(organization.email, "email");
+      facts.telephone ??= fact(organization.telephone, "telephone");
+      facts.contactUrl ??= fact(organization.contactUrl, "contactPoint.url");
+      facts.employees ??= fact(organization.numberOfEmployees, "numberOfEmployees");
+    }
+  }
+  return facts;
+};
+
+export const toCompanySizeBand = (
+  employees: EmployeeRange,
+): "solo" | "2-10" | "11-50" | "51-200" | "200+" | undefined => {
+  if (employees.max === undefined && (employees.min ?? 0) >= 200) {
+    return "200+";
+  }
+  const count = employees.max ?? employees.min;
+  if (!count) {
+    return undefined;
+  }
+  if (count <= 1) {
+    return "solo";
+  }
+  if (count <= 10) {
+    return "2-10";
+  }
+  if (count <= 50) {
+    return "11-50";
+  }
+  if (count <= 200) {
+    return "51-200";
+  }
+  return "200+";
+};
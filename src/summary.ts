@@ -0,0 +1,189 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+import type { ValidationOutcome } from "./report";
+import type { ProviderFrontmatter } from "./schema";
+
+export const RUN_REPORTS_DIR = "out/reports";
+
+export type ProviderOutcome = "upserted" | "validated" | "declined" | "unchanged" | "skipped" | "failed";
+
+/** One provider of a run. Fields stay undefined for stages the provider never reached. */
+export type RunSummaryRow = {
+  slug: string;
+  seedUrl: string;
+  outcome: ProviderOutcome;
+  error?: string;
+  // Undefined for --from-raw runs, which load snapshots instead of fetching.
+  pagesFetched?: number;
+  pagesFailed?: number;
+  impressumFound?: boolean;
+  externalProofPages?: number;
+  llmRequests?: number;
+  llmCachedResponses?: number;
+  llmLatencyMs?: number;
+  validation?: ValidationOutcome;
+  publishStatus?: ProviderFrontmatter["publish_status"];
+  publishReasons: string[];
+  defaultedFields: string[];
+  // Columns where the sheet kept an editor's value over the run's.
+  sheetConflicts: string[];
+};
+
+export type RunSummary = {
+  startedAt: string;
+  finishedAt: string;
+  mode: "crawl" | "from-raw";
+  dryRun: boolean;
+  llmBackend: string;
+  totals: {
+    providers: number;
+    outcomes: Record<ProviderOutcome, number>;
+    published: number;
+    hidden: number;
+    impressumMissing: number;
+    validation: Partial<Record<ValidationOutcome, number>>;
+    pagesFetched: number;
+    pagesFailed: number;
+    externalProofPages: number;
+    llmRequests: number;
+    llmCachedResponses: number;
+    llmLatencyMs: number;
+    sheetConflicts: number;
+  };
+  providers: RunSummaryRow[];
+};
+
+const sum = (rows: RunSummaryRow[], pick: (row: RunSummaryRow) => number | undefined): number =>
+  rows.reduce((total, row) => total + (pick(row) ?? 0), 0);
+
+export const summarizeRun = (
+  meta: Pick<RunSummary, "startedAt" | "mode" | "dryRun" | "llmBackend">,
+  rows: RunSummaryRow[],
+): RunSummary => {
+  const outcomes: Record<ProviderOutcome, number> = {
+    upserted: 0,
+    validated: 0,
+    declined: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  const validation: Partial<Record<ValidationOutcome, number>> = {};
+  for (const row of rows) {
+    outcomes[row.outcome] += 1;
+    if (row.validation) {
+      validation[row.validation] = (validation[row.validation] ?? 0) + 1;
+    }
+  }
+  return {
+    ...meta,
+    finishedAt: new Date().toISOString(),
+    totals: {
+      providers: rows.length,
+      outcomes,
+      published: rows.filter((row) => row.publishStatus === "published").length,
+      hidden: rows.filter((row) => row.publishStatus === "hidden").length,
+      impressumMissing: rows.filter((row) => row.impressumFound === false).length,
+      validation,
+      pagesFetched: sum(rows, (row) => row.pagesFetched),
+      pagesFailed: sum(rows, (row) => row.pagesFailed),
+      externalProofPages: sum(rows, (row) => row.externalProofPages),
+      llmRequests: sum(rows, (row) => row.llmRequests),
+      llmCachedResponses: sum(rows, (row) => row.llmCachedResponses),
+      llmLatencyMs: sum(rows, (row) => row.llmLatencyMs),
+      sheetConflicts: sum(rows, (row) => row.sheetConflicts.length),
+    },
+    providers: rows,
+  };
+};
+
+// Rows an editor should look at first, e.g. to research the provider by hand.
+const needsAttention = (row: RunSummaryRow): boolean =>
+  row.outcome === "failed" ||
+  row.publishStatus === "hidden" ||
+  row.impressumFound === false ||
+  (row.validation !== undefined && row.validation !== "valid");
+
+const cell = (value: string | number | boolean | undefined): string => {
+  if (value === undefined || value === "") {
+    return "–";
+  }
+  if (typeof value === "boolean") {
+    return value ? "yes" : "no";
+  }
+  return String(value).replace(/\|/g, "\\|").replace(/\s+/g, " ");
+};
+
+const formatSeconds = (ms: number | undefined): string | undefined =>
+  ms === undefined ? undefined : `${(ms / 1000).toFixed(1)}s`;
+
+const formatCounts = (counts: Record<string, number | undefined>): string =>
+  Object.entries(counts)
+    .filter(([, count]) => count)
+    .map(([label, count]) => `${count} ${label}`)
+    .join(", ") || "none";
+
+const PROVIDER_TABLE_HEADER = [
+  "| Provider | Outcome | Pages (ok / failed) | Impressum | External proof | LLM requests | LLM latency | Validation | Status | Reasons | Defaulted fields | Sheet conflicts |",
+  "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+];
+
+const formatProviderRow = (row: RunSummaryRow): string =>
+  `| ${[
+    `[${row.slug}](${row.seedUrl})`,
+    cell(row.error ? `${row.outcome}: ${row.error}` : row.outcome),
+    cell(row.pagesFetched === undefined ? undefined : `${row.pagesFetched} / ${row.pagesFailed ?? 0}`),
+    cell(row.impressumFound),
+    cell(row.externalProofPages),
+    cell(row.llmRequests === undefined ? undefined : `${row.llmRequests} (${row.llmCachedResponses ?? 0} cached)`),
+    cell(formatSeconds(row.llmLatencyMs)),
+    cell(row.validation),
+    cell(row.publishStatus),
+    cell(row.publishReasons.join(" ")),
+    cell(row.defaultedFields.join(", ")),
+    cell(row.sheetConflicts.join("; ")),
+  ].join(" | ")} |`;
+
+export const formatRunSummaryMarkdown = (summary: RunSummary): string => {
+  const { totals } = summary;
+  const uncachedRequests = totals.llmRequests - totals.llmCachedResponses;
+  const attention = summary.providers.filter(needsAttention);
+  const lines = [
+    `# Provider run ${summary.startedAt}`,
+    "",
+    `- Mode: ${summary.mode}${summary.dryRun ? " (dry run)" : ""}, LLM backend ${summary.llmBackend}, finished ${summary.finishedAt}`,
+    `- Providers: ${totals.providers} (${formatCounts(totals.outcomes)})`,
+    `- Publish status: ${totals.published} published, ${totals.hidden} hidden`,
+    `- Impressum missing: ${totals.impressumMissing}`,
+    `- Validation: ${formatCounts(totals.validation)}`,
+    `- Pages: ${totals.pagesFetched} fetched, ${totals.pagesFailed} failed, ${totals.externalProofPages} external proof`,
+    `- LLM: ${totals.llmRequests} request(s), ${totals.llmCachedResponses} cached, ${formatSeconds(totals.llmLatencyMs)} total latency${
+      uncachedRequests > 0 ? `, ${formatSeconds(totals.llmLatencyMs / uncachedRequests)} per uncached request` : ""
+    }`,
+    `- Sheet conflicts: ${totals.sheetConflicts} column(s) kept their sheet value`,
+    "",
+    "## Needs attention",
+    "",
+    ...(attention.length > 0
+      ? [...PROVIDER_TABLE_HEADER, ...attention.map(formatProviderRow)]
+      : ["Nothing failed, was hidden or missed an Impressum."]),
+    "",
+    "## All providers",
+    "",
+    ...PROVIDER_TABLE_HEADER,
+    ...summary.providers.map(formatProviderRow),
+    "",
+  ];
+  return lines.join("\n");
+};
+
+/** Writes `<dir>/<timestamp>.json` and `<dir>/<timestamp>.md`; returns the Markdown path. */
+export const writeRunSummary = async (dir: string, summary: RunSummary): Promise<string> => {
+  await mkdir(dir, { recursive: true });
+  const stamp = summary.startedAt.replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+  const markdownFile = path.join(dir, `${stamp}.md`);
+  await writeFile(path.join(dir, `${stamp}.json`), JSON.stringify(summary, null, 2), "utf8");
+  await writeFile(markdownFile, formatRunSummaryMarkdown(summary), "utf8");
+  return markdownFile;
+};
@@ -24,3 +24,5 @@ export const toBooleanString = (value: boolean | undefined): string =>
   value ? "true" : "false";
 
 export const dedupe = <T>(values: T[]): T[] => Array.from(new Set(values));
+
+export type Logger = Pick<Console, "log" | "warn" | "error">;